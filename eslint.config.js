@@ -35,7 +35,11 @@ export default ts.config(
 		],
 		languageOptions: {
 			parserOptions: {
-				projectService: true,
+				projectService: {
+					// Test fixtures live outside the SvelteKit tsconfig includes
+					allowDefaultProject: ['test/fixtures/*.svelte', 'test/fixtures/*.svelte.ts'],
+					maximumDefaultProjectFileMatchCount_THIS_WILL_SLOW_DOWN_LINTING: 16
+				},
 				extraFileExtensions: ['.svelte'],
 				parser: ts.parser,
 				svelteConfig
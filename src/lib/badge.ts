@@ -0,0 +1,35 @@
+import type { TitleBadgeValue } from './stores/title.js'
+
+/**
+ * Mirrors a title badge to the app icon badge of installed PWAs.
+ *
+ * - Counts set the numeric app badge
+ * - Labels set a plain (dot) app badge, since the Badging API only accepts numbers
+ * - `null`, `0` and `''` clear the app badge
+ *
+ * Does nothing when the Badging API is missing, and ignores its errors
+ * (for example when the app is not installed).
+ *
+ * @param badge - The count or label to mirror, or null to clear
+ *
+ * @example
+ * await syncAppBadge(3)
+ * await syncAppBadge(null)
+ */
+export async function syncAppBadge(badge: TitleBadgeValue): Promise<void> {
+	if (typeof navigator === 'undefined' || typeof navigator.setAppBadge !== 'function') {
+		return
+	}
+
+	try {
+		if (badge === null || badge === 0 || badge === '') {
+			await navigator.clearAppBadge()
+		} else if (typeof badge === 'number') {
+			await navigator.setAppBadge(badge)
+		} else {
+			await navigator.setAppBadge()
+		}
+	} catch {
+		// The app badge is best effort and never affects the title
+	}
+}
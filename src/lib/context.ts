@@ -0,0 +1,59 @@
+import { getContext, hasContext, setContext } from 'svelte'
+import { createTitleManager, defaultTitleManager, type TitleManager } from './stores/title.js'
+
+const TITLE_MANAGER_KEY = Symbol('svelte-title.manager')
+const TITLE_LEVEL_KEY = Symbol('svelte-title.level')
+
+/**
+ * Provides a title manager to all descendant components.
+ * Must be called during component initialization.
+ *
+ * @param manager - The manager to provide (default: a new isolated manager)
+ * @returns The provided manager
+ *
+ * @example
+ * // In root +layout.svelte
+ * const titles = setTitleManager()
+ */
+export function setTitleManager(manager: TitleManager = createTitleManager()): TitleManager {
+	return setContext(TITLE_MANAGER_KEY, manager)
+}
+
+/**
+ * Gets the title manager provided by the nearest ancestor.
+ * Falls back to the default module-level manager when none is provided.
+ * Must be called during component initialization.
+ *
+ * @returns The title manager for the current component tree
+ */
+export function getTitleManager(): TitleManager {
+	if (hasContext(TITLE_MANAGER_KEY)) {
+		return getContext<TitleManager>(TITLE_MANAGER_KEY)
+	}
+	return defaultTitleManager
+}
+
+/**
+ * Sets the level that Title components inside this component get.
+ * Called by `<Title>` for its children and by `<TitleBoundary>`.
+ * Must be called during component initialization.
+ *
+ * @param level - The level for descendant titles
+ * @returns The provided level
+ */
+export function setTitleLevel(level: number): number {
+	return setContext(TITLE_LEVEL_KEY, level)
+}
+
+/**
+ * Gets the level provided by the nearest ancestor `<Title>` or `<TitleBoundary>`.
+ * Must be called during component initialization.
+ *
+ * @returns The level for a title at this depth, or undefined outside any nesting
+ */
+export function getTitleLevel(): number | undefined {
+	if (hasContext(TITLE_LEVEL_KEY)) {
+		return getContext<number>(TITLE_LEVEL_KEY)
+	}
+	return undefined
+}
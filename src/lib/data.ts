@@ -0,0 +1,58 @@
+/**
+ * Default page data field holding the title chain.
+ */
+export const DEFAULT_TITLES_KEY = 'titles'
+
+/**
+ * A title declared in load data: the text, or a promise for streamed data.
+ */
+export type TitleDataValue = string | PromiseLike<string>
+
+/**
+ * Page data fields returned by `withTitle`.
+ */
+export interface TitleData {
+	/** The title of this layout or page */
+	title: TitleDataValue
+	/** Titles from the outermost layout to this layout or page */
+	titles: TitleDataValue[]
+}
+
+/**
+ * Declares the title of a layout or page in its load function.
+ *
+ * SvelteKit merges `page.data` across layouts, so a deeper `title` replaces
+ * the one above it. `withTitle` appends this title to the parent's `titles`,
+ * keeping the whole chain for the root Title with `fromData`.
+ *
+ * @param title - The title, or a promise for streamed data
+ * @param parent - The result of `await parent()` (default: {} for top-level layouts)
+ * @returns Data with `title` and the accumulated `titles`
+ *
+ * @example
+ * // settings/+layout.ts
+ * export const load = async ({ parent }) => withTitle('Settings', await parent())
+ *
+ * // settings/billing/+page.ts
+ * export const load = async ({ parent }) => ({
+ *   ...withTitle('Billing', await parent()),
+ *   invoices: await fetchInvoices()
+ * })
+ */
+export function withTitle(title: TitleDataValue, parent: Record<string, unknown> = {}): TitleData {
+	const parentTitles = getDataTitles(parent)
+	return { title, titles: [...parentTitles, title] }
+}
+
+/**
+ * Reads the title chain from page data.
+ * Missing or malformed fields return an empty array.
+ *
+ * @param data - Page data, e.g. `page.data`
+ * @param key - Field holding the titles (default: 'titles')
+ * @returns The titles in route-tree order
+ */
+export function getDataTitles(data: Record<string, unknown>, key: string = DEFAULT_TITLES_KEY): TitleDataValue[] {
+	const titles = data[key]
+	return Array.isArray(titles) ? titles : []
+}
@@ -0,0 +1,141 @@
+import { dev } from '$app/environment'
+import type { TitleSourceLocation } from './inspector.js'
+
+/**
+ * Stable codes of the development warnings:
+ * - 'sibling_collision' - two titles share a cascade level without a sibling policy
+ * - 'level_counter_not_reset' - a render-order title skipped levels left over from the previous page
+ * - 'level_gap' - cascade levels below the highest one have no title
+ * - 'multiple_titles_in_component' - one component file has several render-order titles below the root
+ * - 'root_option_ignored' - a root-only prop, such as `separator`, is set on a nested Title
+ * - 'hardcoded_title' - a `<title>`, such as one in app.html, comes before the one Svelte rendered during SSR
+ */
+export type TitleDiagnosticCode =
+	| 'sibling_collision'
+	| 'level_counter_not_reset'
+	| 'level_gap'
+	| 'multiple_titles_in_component'
+	| 'root_option_ignored'
+	| 'hardcoded_title'
+
+/**
+ * Options for `setTitleDiagnostics`.
+ */
+export interface TitleDiagnosticsOptions {
+	/** Throw an error instead of warning, to fail tests on misconfigurations (default: false) */
+	strict?: boolean
+	/** Codes to never report */
+	ignore?: readonly TitleDiagnosticCode[]
+}
+
+let strict = false
+let ignored = new Set<TitleDiagnosticCode>()
+
+/** Warnings already printed, so repeated checks print each one once */
+const reported = new Set<string>()
+
+/**
+ * Render-order titles each component file currently renders, by their place in the file.
+ * Key: component file, Value: (Key: position, Value: number of live instances)
+ */
+const renderOrderTitles = new Map<string, Map<string, number>>()
+
+/**
+ * Configures the development warnings. Warnings are never reported in production.
+ * Also forgets the warnings printed so far.
+ *
+ * @param options - `strict` mode and codes to `ignore`
+ *
+ * @example
+ * // vitest.setup.ts
+ * setTitleDiagnostics({ strict: true })
+ */
+export function setTitleDiagnostics(options: TitleDiagnosticsOptions = {}) {
+	strict = options.strict ?? false
+	ignored = new Set(options.ignore)
+	reported.clear()
+}
+
+/**
+ * Forgets the warnings printed so far, so they are printed again.
+ * `resetTitles` from `svelte-title/testing` calls it between tests.
+ */
+export function resetTitleDiagnostics() {
+	reported.clear()
+}
+
+/**
+ * Reports a misconfiguration in development: warns once per message, or throws in strict mode.
+ *
+ * @param code - Stable code of the problem
+ * @param message - What is wrong and how to fix it
+ * @throws {Error} In strict mode
+ */
+export function reportTitleDiagnostic(code: TitleDiagnosticCode, message: string) {
+	if (!dev || ignored.has(code)) return
+	const text = `svelte-title(${code}): ${message}`
+	if (strict) {
+		throw new Error(text)
+	}
+	if (reported.has(text)) return
+	reported.add(text)
+	console.warn(text)
+}
+
+/**
+ * Counts a Title that takes its level from render order, and reports when another
+ * `<Title>` in the same component file does too. Titles are told apart by their
+ * place in the file, so several instances of one component, or a remount, count once.
+ *
+ * @param location - Where the Title was created
+ * @param title - Text of the new Title, for the message
+ * @returns A function that stops counting the Title
+ */
+export function trackRenderOrderTitle(location: TitleSourceLocation, title: string): () => void {
+	const { file, position } = location
+	const positions = renderOrderTitles.get(file) ?? new Map<string, number>()
+	renderOrderTitles.set(file, positions)
+	positions.set(position, (positions.get(position) ?? 0) + 1)
+	if (positions.size > 1) {
+		reportTitleDiagnostic(
+			'multiple_titles_in_component',
+			`${file} renders ${positions.size} <Title> components that take their level from render order, so "${title}" becomes a level of its own. ` +
+			`Nest one Title inside the other, or give them explicit levels.`
+		)
+	}
+	return () => {
+		const remaining = (positions.get(position) ?? 1) - 1
+		if (remaining > 0) {
+			positions.set(position, remaining)
+			return
+		}
+		positions.delete(position)
+		if (positions.size === 0) {
+			renderOrderTitles.delete(file)
+		}
+	}
+}
+
+/**
+ * Finds a `<title>` that comes before the one Svelte rendered into the head,
+ * such as one hard-coded in app.html. Svelte writes its `<title>` after the
+ * `<svelte:head>` blocks, which start with a `<!--[-->` comment, so titles before
+ * the first block are not its own. Heads without a Svelte title, as in client-only
+ * apps or after the title handle replaced them, never have one.
+ *
+ * @param head - The document head, as rendered by the server
+ * @returns The text of the hard-coded title, or null
+ */
+export function findHardcodedTitle(head: ParentNode): string | null {
+	let afterHeadBlock = false
+	let hardcoded: string | null = null
+	for (const node of Array.from(head.childNodes)) {
+		if (node.nodeType === Node.COMMENT_NODE && (node as Comment).data.startsWith('[')) {
+			afterHeadBlock = true
+		} else if (node.nodeName === 'TITLE') {
+			if (afterHeadBlock) return hardcoded
+			hardcoded ??= node.textContent ?? ''
+		}
+	}
+	return null
+}
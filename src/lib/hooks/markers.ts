@@ -0,0 +1,30 @@
+import { building } from '$app/environment'
+import { MANIFEST_ENV } from '../markers.js'
+
+/** Whether a title handle has run, so Title components serialize their parts for it */
+let markersRequested = false
+
+/**
+ * Makes Title components emit title markers in the SSR head from now on.
+ * The handle calls it for every request, so apps without it never ship markers.
+ *
+ * @param requested - Whether markers are wanted (default: true)
+ */
+export function requestTitleMarkers(requested = true) {
+	markersRequested = requested
+}
+
+/**
+ * Whether the `svelte-title/vite` plugin is prerendering pages for the title manifest.
+ */
+export function isBuildingManifest(): boolean {
+	return building && typeof process !== 'undefined' && process.env[MANIFEST_ENV] === '1'
+}
+
+/**
+ * Whether Title components should emit title markers: a handle asked for
+ * them, or the vite plugin reads them while building.
+ */
+export function titleMarkersRequested(): boolean {
+	return markersRequested || isBuildingManifest()
+}
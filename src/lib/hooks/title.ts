@@ -0,0 +1,121 @@
+import type { Handle } from '@sveltejs/kit'
+import { MARKER_PATTERN, readTitleMarkers } from '../markers.js'
+import { isBuildingManifest, requestTitleMarkers } from './markers.js'
+import {
+	buildTitle,
+	defaultTitleManager,
+	mergeTitleSiblings,
+	DEFAULT_SEPARATOR,
+	type BuildTitleOptions,
+	type TitlePart,
+	type TitleSiblingOptions
+} from '../stores/title.js'
+
+const TITLE_PATTERN = /<title\b[^>]*>[\s\S]*?<\/title>/gi
+
+/**
+ * Options for `createTitleHandle`.
+ */
+export interface TitleHandleOptions extends BuildTitleOptions, TitleSiblingOptions {
+	/**
+	 * Separator used when the root Title does not set one.
+	 * @default ' • '
+	 */
+	separator?: string
+}
+
+function escapeHtml(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;')
+}
+
+/**
+ * Replaces the titles in an HTML head with one cascaded title
+ * built from the SSR title markers.
+ * Chunks without a closing head tag or without markers are returned unchanged.
+ */
+export function transformHead(html: string, options: TitleHandleOptions): string {
+	const headEnd = html.indexOf('</head>')
+	if (headEnd === -1) {
+		return html
+	}
+
+	const head = html.slice(0, headEnd)
+	const registeredParts: TitlePart[] = []
+	const dataParts = new Map<number, TitlePart>()
+	let { separator = DEFAULT_SEPARATOR, ...buildOptions } = options
+	const markers = readTitleMarkers(head)
+
+	for (const marker of markers) {
+		const { separator: markerSeparator, options: markerOptions, data, ...part } = marker
+		// Same-level registrations are combined by the sibling policy below
+		if (data) {
+			dataParts.set(part.level, part)
+		} else {
+			registeredParts.push(part)
+		}
+		if (markerSeparator !== undefined) {
+			separator = markerSeparator
+		}
+		if (markerOptions !== undefined) {
+			buildOptions = { ...buildOptions, ...markerOptions }
+		}
+	}
+
+	if (markers.length === 0) {
+		return html
+	}
+
+	const { siblings, siblingSeparator, ...titleOptions } = buildOptions
+	const parts = mergeTitleSiblings(registeredParts, { siblings, siblingSeparator })
+	for (const [level, part] of dataParts) {
+		if (!parts.some(p => p.level === level)) {
+			parts.push(part)
+		}
+	}
+	const title = buildTitle(parts, separator, titleOptions)
+
+	// The vite plugin reads the markers of prerendered pages and removes them itself
+	const cleanedHead = (isBuildingManifest() ? head : head.replace(MARKER_PATTERN, '')).replace(TITLE_PATTERN, '')
+	return `${cleanedHead}<title>${escapeHtml(title)}</title>${html.slice(headEnd)}`
+}
+
+/**
+ * Creates a SvelteKit handle that writes the fully cascaded title into SSR HTML.
+ *
+ * During SSR every Title component renders its own `<title>` and only the last
+ * one survives. This handle clears the default manager before each request,
+ * collects every part registered during the request
+ * and emits exactly one `<title>` built with `buildTitle` and the request's separator.
+ * Options set on the root Title take precedence; pass formatter functions here,
+ * since they can't be carried over from SSR.
+ *
+ * @param options - Handle options
+ * @returns A handle for `hooks.server.ts`
+ *
+ * @example
+ * // src/hooks.server.ts
+ * import { createTitleHandle } from 'svelte-title'
+ *
+ * export const handle = createTitleHandle({ separator: ' | ' })
+ */
+export function createTitleHandle(options: TitleHandleOptions = {}): Handle {
+	return ({ event, resolve }) => {
+		// Titles outside a TitleProvider share the default manager, so each request starts it empty
+		defaultTitleManager.clearTitleState()
+		// Title components only serialize their parts once a handle reads them
+		requestTitleMarkers()
+		return resolve(event, {
+			transformPageChunk: ({ html }) => transformHead(html, options)
+		})
+	}
+}
+
+/**
+ * SvelteKit handle that writes the fully cascaded title into SSR HTML.
+ * Combine it with other handles using `sequence` from `@sveltejs/kit/hooks`.
+ *
+ * @example
+ * // src/hooks.server.ts
+ * export { titleHandle as handle } from 'svelte-title'
+ */
+export const titleHandle: Handle = createTitleHandle()
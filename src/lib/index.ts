@@ -1,2 +1,40 @@
 export { default as Title } from './components/Title.svelte'
+export { default as TitleProvider } from './components/TitleProvider.svelte'
+export { default as TitleBoundary } from './components/TitleBoundary.svelte'
+export { default as TitleMeta } from './components/TitleMeta.svelte'
+export { default as TitleBadge } from './components/TitleBadge.svelte'
+export { default as Breadcrumbs } from './components/Breadcrumbs.svelte'
+export { default as TitleStructuredData } from './components/TitleStructuredData.svelte'
+export { default as TitleAnnouncer } from './components/TitleAnnouncer.svelte'
+export { default as TitleInspector } from './components/TitleInspector.svelte'
 export * from './stores/title.js'
+export * from './context.js'
+export * from './badge.js'
+export * from './jsonld.js'
+export { useTitle, TitleState, type UseTitleOptions } from './runes/title.svelte.js'
+export {
+	normalizeTitleParts,
+	DEFAULT_NORMALIZE_STEPS,
+	type TitleNormalizeStep,
+	type TitleNormalizeContext,
+	type TitleNormalizer,
+	type TitleTransform
+} from './normalize.js'
+export {
+	documentTitleSink,
+	postMessageSink,
+	customSink,
+	DEFAULT_TITLE_MESSAGE_TYPE,
+	type TitleSink,
+	type TitleMessage,
+	type TitleMessageTarget,
+	type PostMessageSinkOptions
+} from './sinks.js'
+export {
+	setTitleDiagnostics,
+	resetTitleDiagnostics,
+	type TitleDiagnosticCode,
+	type TitleDiagnosticsOptions
+} from './diagnostics.js'
+export { withTitle, DEFAULT_TITLES_KEY, type TitleData, type TitleDataValue } from './data.js'
+export { createTitleHandle, titleHandle, type TitleHandleOptions } from './hooks/title.js'
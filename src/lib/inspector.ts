@@ -0,0 +1,106 @@
+import type { TitleInspectorPart, TitleTimelineEntry } from './stores/title.js'
+
+/**
+ * Stack frame locations of Svelte component files, with an optional query
+ * such as Vite's `?t=` timestamp.
+ */
+const SVELTE_FRAME_PATTERN = /([^\s()@]+?\.svelte)(?:\?[^\s():]*)?:(\d+:\d+)/g
+
+/**
+ * Drops the origin of a module URL, leaving the path a developer recognizes.
+ */
+function toFilePath(file: string): string {
+	const path = /^(?:https?|file):\/\//.test(file) ? new URL(file).pathname : file
+	return decodeURIComponent(path)
+}
+
+/**
+ * Where in a component file a title was created.
+ */
+export interface TitleSourceLocation {
+	/** The component path, such as '/src/routes/settings/+page.svelte' */
+	file: string
+	/** Line and column in the file as run, such as '12:3' */
+	position: string
+}
+
+/**
+ * Finds where a title was created from a stack trace: the first Svelte
+ * component frame in the stack other than the caller's own file.
+ *
+ * @param stack - Stack trace, as in `new Error().stack`
+ * @param ownFile - URL of the calling component, as in `import.meta.url`, to skip
+ * @returns The component path and position, if found
+ */
+export function findSourceLocation(stack: string | undefined, ownFile?: string): TitleSourceLocation | undefined {
+	const own = ownFile === undefined ? undefined : toFilePath(ownFile.replace(/\?.*$/, ''))
+	for (const [, file, position] of (stack ?? '').matchAll(SVELTE_FRAME_PATTERN)) {
+		const path = toFilePath(file)
+		if (path !== own) {
+			return { file: path, position }
+		}
+	}
+	return undefined
+}
+
+/**
+ * Finds the component file that created a title from a stack trace.
+ * Returns the first Svelte component in the stack other than the caller's own file.
+ *
+ * @param stack - Stack trace, as in `new Error().stack`
+ * @param ownFile - URL of the calling component, as in `import.meta.url`, to skip
+ * @returns The component path, such as '/src/routes/settings/+page.svelte', if found
+ */
+export function findSourceFile(stack: string | undefined, ownFile?: string): string | undefined {
+	return findSourceLocation(stack, ownFile)?.file
+}
+
+/**
+ * Calls recorded during one navigation.
+ */
+export interface TitleTimelineGroup {
+	/** Path of the page the calls were made on */
+	pathname: string | null
+	/** The calls, oldest first */
+	entries: TitleTimelineEntry[]
+}
+
+/**
+ * Splits the title timeline into navigations: runs of calls made on the same path.
+ *
+ * @param timeline - Timeline entries, oldest first
+ * @param navigations - How many of the latest navigations to keep
+ * @returns The navigations, newest first
+ */
+export function groupTimeline(timeline: TitleTimelineEntry[], navigations: number): TitleTimelineGroup[] {
+	const groups: TitleTimelineGroup[] = []
+	for (const entry of timeline) {
+		const last = groups.at(-1)
+		if (last && last.pathname === entry.pathname) {
+			last.entries.push(entry)
+		} else {
+			groups.push({ pathname: entry.pathname, entries: [entry] })
+		}
+	}
+	return groups.slice(-navigations).reverse()
+}
+
+/**
+ * Finds cascade levels below the highest level in use that no part fills,
+ * which a skipped `getNextLevel()` slot or a missing layout title leaves behind.
+ *
+ * @param parts - The inspected parts
+ * @param counter - The level counter
+ * @returns The empty levels, ascending
+ */
+export function findEmptyLevels(parts: TitleInspectorPart[], counter: number): number[] {
+	const used = new Set(parts.filter(part => !part.override).map(part => part.level))
+	const highest = Math.max(counter - 1, ...used)
+	const empty: number[] = []
+	for (let level = 0; level < highest; level++) {
+		if (!used.has(level)) {
+			empty.push(level)
+		}
+	}
+	return empty
+}
@@ -0,0 +1,69 @@
+import type { Breadcrumb } from './stores/title.js'
+
+/**
+ * A single entry of a schema.org BreadcrumbList.
+ */
+export interface BreadcrumbListItem {
+	'@type': 'ListItem'
+	/** 1-based position from the root */
+	position: number
+	/** The breadcrumb title */
+	name: string
+	/** Absolute URL of the breadcrumb */
+	item: string
+}
+
+/**
+ * A schema.org BreadcrumbList as JSON-LD.
+ */
+export interface BreadcrumbList {
+	'@context': 'https://schema.org'
+	'@type': 'BreadcrumbList'
+	itemListElement: BreadcrumbListItem[]
+}
+
+/**
+ * Builds a schema.org BreadcrumbList from breadcrumbs with links.
+ *
+ * @param crumbs - Breadcrumbs from root to leaf, e.g. from `resolveBreadcrumbHrefs`
+ * @param origin - Origin that relative links are resolved against, e.g. `page.url.origin`
+ * @returns The BreadcrumbList object
+ *
+ * @example
+ * createBreadcrumbList([{ level: 0, title: 'App', href: '/' }], 'https://example.com')
+ * // { '@context': 'https://schema.org', '@type': 'BreadcrumbList',
+ * //   itemListElement: [{ '@type': 'ListItem', position: 1, name: 'App', item: 'https://example.com/' }] }
+ */
+export function createBreadcrumbList(crumbs: Required<Breadcrumb>[], origin: string): BreadcrumbList {
+	return {
+		'@context': 'https://schema.org',
+		'@type': 'BreadcrumbList',
+		itemListElement: crumbs.map((crumb, index) => ({
+			'@type': 'ListItem',
+			position: index + 1,
+			name: crumb.title,
+			item: new URL(crumb.href, origin).href
+		}))
+	}
+}
+
+/**
+ * Serializes a value as JSON that is safe to place inside a `<script>` tag.
+ *
+ * Escapes `<`, `>` and `&` so titles can't close the script or open comments,
+ * and the line separators that older JavaScript parsers reject.
+ *
+ * @param value - The JSON-LD value
+ * @returns Escaped JSON
+ *
+ * @example
+ * serializeJsonLd({ name: '</script>' }) // '{"name":"\\u003c/script\\u003e"}'
+ */
+export function serializeJsonLd(value: unknown): string {
+	return JSON.stringify(value)
+		.replace(/</g, '\\u003c')
+		.replace(/>/g, '\\u003e')
+		.replace(/&/g, '\\u0026')
+		.replace(/\u2028/g, '\\u2028')
+		.replace(/\u2029/g, '\\u2029')
+}
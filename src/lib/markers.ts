@@ -0,0 +1,63 @@
+import type { BuildTitleOptions, TitlePart, TitleSiblingOptions } from './stores/title.js'
+
+/**
+ * Prefix of the HTML comments that carry title parts from SSR to the handle.
+ */
+const MARKER_PREFIX = 'svelte-title:'
+
+export const MARKER_PATTERN = /<!--svelte-title:([^>]*?)-->/g
+
+/**
+ * Environment variable set by the `svelte-title/vite` plugin while building,
+ * so the handle keeps the markers in prerendered pages for the plugin to read.
+ */
+export const MANIFEST_ENV = 'SVELTE_TITLE_MANIFEST'
+
+/**
+ * A title part as serialized into the SSR head.
+ */
+export interface TitleMarker extends TitlePart {
+	/** Separator set by the root-level Title component */
+	separator?: string
+	/** Serializable build and sibling options set by the root-level Title component */
+	options?: BuildTitleOptions & TitleSiblingOptions
+	/** Whether the part comes from page data, which any registered part at its level replaces */
+	data?: boolean
+}
+
+/**
+ * Serializes a title part into an HTML comment for the SSR head.
+ * The payload is URI-encoded so it can never close the comment early.
+ *
+ * @param marker - The part (and optional root separator) to serialize
+ * @returns The HTML comment string
+ */
+export function createTitleMarker(marker: TitleMarker): string {
+	return `<!--${MARKER_PREFIX}${encodeURIComponent(JSON.stringify(marker))}-->`
+}
+
+function parseTitleMarker(encoded: string): TitleMarker | null {
+	try {
+		return JSON.parse(decodeURIComponent(encoded))
+	} catch {
+		return null
+	}
+}
+
+/**
+ * Reads every title marker from a piece of HTML, in document order.
+ * Malformed markers are skipped.
+ *
+ * @param html - HTML containing title markers
+ * @returns The parsed markers
+ */
+export function readTitleMarkers(html: string): TitleMarker[] {
+	const markers: TitleMarker[] = []
+	for (const [, encoded] of html.matchAll(MARKER_PATTERN)) {
+		const marker = parseTitleMarker(encoded)
+		if (marker) {
+			markers.push(marker)
+		}
+	}
+	return markers
+}
@@ -0,0 +1,215 @@
+import type { TitlePart } from './stores/title.js'
+
+/**
+ * A built-in normalization step:
+ * - 'tags' strips HTML tags
+ * - 'entities' decodes HTML entities such as `&amp;` and `&#8217;`
+ * - 'control' strips control and zero-width characters
+ * - 'whitespace' collapses runs of whitespace and trims
+ * - 'empty' drops parts whose title is empty
+ * - 'duplicates' drops a part repeating the title of the level above it
+ */
+export type TitleNormalizeStep = 'tags' | 'entities' | 'control' | 'whitespace' | 'empty' | 'duplicates'
+
+/**
+ * Passed to each normalization transform.
+ */
+export interface TitleNormalizeContext {
+	/** Reports a problem with a part; the built-in validation uses it too */
+	warn(message: string, part?: unknown): void
+}
+
+/**
+ * Custom normalization transform: receives the parts sorted by level and returns the new parts.
+ */
+export type TitleTransform = (parts: TitlePart[], context: TitleNormalizeContext) => TitlePart[]
+
+/**
+ * A step of the normalization pipeline: a built-in step name or a custom transform.
+ */
+export type TitleNormalizer = TitleNormalizeStep | TitleTransform
+
+/**
+ * The steps `normalize: true` runs, in order.
+ */
+export const DEFAULT_NORMALIZE_STEPS: readonly TitleNormalizeStep[] = [
+	'tags',
+	'entities',
+	'control',
+	'whitespace',
+	'empty',
+	'duplicates'
+]
+
+const TAG_PATTERN = /<[^>]*>/g
+
+const ENTITY_PATTERN = /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi
+
+const NAMED_ENTITIES: Record<string, string> = {
+	amp: '&',
+	lt: '<',
+	gt: '>',
+	quot: '"',
+	apos: "'",
+	nbsp: '\u00A0',
+	ndash: '–',
+	mdash: '—',
+	hellip: '…',
+	lsquo: '‘',
+	rsquo: '’',
+	ldquo: '“',
+	rdquo: '”',
+	bull: '•',
+	middot: '·',
+	copy: '©',
+	reg: '®',
+	trade: '™'
+}
+
+/**
+ * Control characters other than whitespace, and zero-width characters that never render.
+ * Zero-width joiners are kept, since emoji sequences and some scripts rely on them.
+ */
+// eslint-disable-next-line no-control-regex -- matching control characters is the point
+const CONTROL_PATTERN = /[\u0000-\u0008\u000E-\u001F\u007F-\u009F\u200B\u2060\uFEFF]/g
+
+/**
+ * Logs a warning the way buildTitle always has.
+ */
+const consoleContext: TitleNormalizeContext = {
+	warn(message, part) {
+		if (typeof console !== 'undefined') {
+			console.warn(`buildTitle: ${message}`, part)
+		}
+	}
+}
+
+/**
+ * Type guard to validate TitlePart structure.
+ */
+export function isValidTitlePart(part: unknown): part is TitlePart {
+	return (
+		typeof part === 'object' &&
+		part !== null &&
+		'level' in part &&
+		'title' in part &&
+		typeof (part as TitlePart).level === 'number' &&
+		typeof (part as TitlePart).title === 'string'
+	)
+}
+
+function decodeEntity(entity: string, name: string): string {
+	if (name[0] === '#') {
+		const codePoint = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10)
+		return codePoint > 0 && codePoint <= 0x10ffff ? String.fromCodePoint(codePoint) : entity
+	}
+	return NAMED_ENTITIES[name.toLowerCase()] ?? entity
+}
+
+/**
+ * Applies a text transform to the title and short text of each part.
+ */
+function mapText(parts: TitlePart[], transform: (text: string) => string): TitlePart[] {
+	return parts.map(part => {
+		const next = { ...part, title: transform(part.title) }
+		if (part.short !== undefined) {
+			next.short = transform(part.short)
+		}
+		return next
+	})
+}
+
+/**
+ * Drops cascade parts that repeat the title of the level right above them,
+ * keeping the more general one ("Settings • Settings • App" becomes "Settings • App").
+ */
+function dropDuplicates(parts: TitlePart[]): TitlePart[] {
+	let previous: string | undefined
+	return parts.filter(part => {
+		if (part.level < 0) {
+			return true
+		}
+		const duplicate = part.title === previous
+		previous = part.title
+		return !duplicate
+	})
+}
+
+function runStep(step: TitleNormalizeStep, parts: TitlePart[]): TitlePart[] {
+	switch (step) {
+	case 'tags':
+		return mapText(parts, text => text.replace(TAG_PATTERN, ''))
+	case 'entities':
+		return mapText(parts, text => text.replace(ENTITY_PATTERN, decodeEntity))
+	case 'control':
+		return mapText(parts, text => text.replace(CONTROL_PATTERN, ''))
+	case 'whitespace':
+		return mapText(parts, text => text.replace(/\s+/g, ' ').trim())
+	case 'empty':
+		return parts.filter(part => part.title !== '')
+	case 'duplicates':
+		return dropDuplicates(parts)
+	}
+}
+
+/**
+ * Checks that a normalize option only names known steps or transforms.
+ *
+ * @throws {Error} If normalize is not a boolean or an array of known steps and functions
+ */
+export function validateNormalize(normalize: unknown) {
+	if (normalize === undefined || typeof normalize === 'boolean') {
+		return
+	}
+	if (!Array.isArray(normalize)) {
+		throw new Error(`Invalid normalize: ${String(normalize)}. Use a boolean or an array of steps.`)
+	}
+	for (const step of normalize) {
+		if (typeof step !== 'function' && !DEFAULT_NORMALIZE_STEPS.includes(step)) {
+			throw new Error(`Invalid normalize step: "${String(step)}". Use ${DEFAULT_NORMALIZE_STEPS.map(s => `'${s}'`).join(', ')} or a function.`)
+		}
+	}
+}
+
+/**
+ * Runs title parts through the normalization pipeline.
+ *
+ * Invalid parts are always dropped with a warning. The remaining parts,
+ * sorted by level, then pass through each step in order: `true` runs
+ * `DEFAULT_NORMALIZE_STEPS`, an array runs its own steps, and `false` none.
+ *
+ * @param parts - Title parts, possibly with invalid entries
+ * @param normalize - The steps to run (default: true)
+ * @param context - Receives warnings (default: console.warn)
+ * @returns The normalized parts, sorted by level
+ *
+ * @example
+ * normalizeTitleParts([
+ *   { level: 0, title: 'App' },
+ *   { level: 1, title: ' Settings ' },
+ *   { level: 2, title: 'Settings&nbsp;' }
+ * ])
+ * // [{ level: 0, title: 'App' }, { level: 1, title: 'Settings' }]
+ *
+ * const upperCase: TitleTransform = parts => parts.map(p => ({ ...p, title: p.title.toUpperCase() }))
+ * normalizeTitleParts(parts, [...DEFAULT_NORMALIZE_STEPS, upperCase])
+ */
+export function normalizeTitleParts(
+	parts: unknown[],
+	normalize: boolean | readonly TitleNormalizer[] = true,
+	context: TitleNormalizeContext = consoleContext
+): TitlePart[] {
+	const validParts = parts.filter((part): part is TitlePart => {
+		const valid = isValidTitlePart(part)
+		if (!valid) {
+			context.warn('Ignoring invalid title part:', part)
+		}
+		return valid
+	})
+
+	const steps = normalize === true ? DEFAULT_NORMALIZE_STEPS : normalize === false ? [] : normalize
+	return steps.reduce<TitlePart[]>(
+		(current, step) => (typeof step === 'function' ? step(current, context) : runStep(step, current)),
+		[...validParts].sort((a, b) => a.level - b.level)
+	)
+}
@@ -0,0 +1,156 @@
+import { onDestroy } from 'svelte'
+import { dev } from '$app/environment'
+import { fromStore } from 'svelte/store'
+import { getTitleLevel, getTitleManager } from '../context.js'
+import { findSourceFile } from '../inspector.js'
+import {
+	OVERRIDE_LEVEL,
+	defaultTitleManager,
+	type Breadcrumb,
+	type TitleManager,
+	type TitleOptions,
+	type TitlePart,
+	type TitlePartOptions
+} from '../stores/title.js'
+
+/**
+ * Options for `useTitle`.
+ */
+export interface UseTitleOptions extends TitlePartOptions {
+	/** Explicit hierarchy level (default: from nesting, or auto-assigned in call order) */
+	level?: number
+	/** Show only this title, bypassing cascading */
+	override?: boolean
+	/**
+	 * Manager to register with (default: the one from context).
+	 * Required outside component initialization; the level then isn't read from nesting either.
+	 */
+	manager?: TitleManager
+}
+
+/**
+ * Reactive view of a title manager for runes code.
+ *
+ * Every field reads the manager's stores, so reading it in a template, `$derived`
+ * or `$effect` re-runs on changes; outside reactive code it returns the current value.
+ *
+ * @example
+ * const title = new TitleState()
+ * $effect(() => console.log(title.current))
+ * title.separator = ' | '
+ */
+export class TitleState {
+	/** The manager this state reads and writes */
+	readonly manager: TitleManager
+
+	#parts: { readonly current: TitlePart[] }
+	#separator: { readonly current: string }
+	#options: { readonly current: TitleOptions }
+	#current: { readonly current: string }
+	#breadcrumbs: { readonly current: Breadcrumb[] }
+
+	/**
+	 * @param manager - Manager to follow (default: the default module-level manager)
+	 */
+	constructor(manager: TitleManager = defaultTitleManager) {
+		this.manager = manager
+		this.#parts = fromStore(manager.titleParts)
+		this.#separator = fromStore(manager.titleSeparator)
+		this.#options = fromStore(manager.titleOptions)
+		this.#current = fromStore(manager.currentTitle)
+		this.#breadcrumbs = fromStore(manager.breadcrumbs)
+	}
+
+	/** All active title parts, sorted by level */
+	get parts(): TitlePart[] {
+		return this.#parts.current
+	}
+
+	/** The displayed title, including the badge or attention text */
+	get current(): string {
+		return this.#current.current
+	}
+
+	/** The title separator; assigning it calls `setSeparator` */
+	get separator(): string {
+		return this.#separator.current
+	}
+
+	set separator(separator: string) {
+		this.manager.setSeparator(separator)
+	}
+
+	/** The options set on the root Title; assigning them calls `setTitleOptions` */
+	get options(): TitleOptions {
+		return this.#options.current
+	}
+
+	set options(options: TitleOptions) {
+		this.manager.setTitleOptions(options)
+	}
+
+	/** The breadcrumb trail, root first */
+	get breadcrumbs(): Breadcrumb[] {
+		return this.#breadcrumbs.current
+	}
+}
+
+/**
+ * Registers a title part from runes code, like a `<Title>` without the element.
+ *
+ * The text getter is tracked, so the part updates whenever the state it reads
+ * changes; an empty string removes the part. The part is removed when the
+ * component or effect root that called `useTitle` is destroyed.
+ *
+ * Call it during component initialization, or inside an `$effect.root` or
+ * attachment with an explicit `manager`, since context isn't available there.
+ *
+ * @param getText - Returns the title text of this level
+ * @param options - Level, override mode, part options and manager
+ * @returns The reactive state of the manager the part was registered with
+ *
+ * @example
+ * // +page.svelte
+ * let { data } = $props()
+ * const title = useTitle(() => data.invoice.number, { short: 'Invoice' })
+ * // title.current: "Invoice #4821 • Billing • App"
+ */
+export function useTitle(getText: () => string, options: UseTitleOptions = {}): TitleState {
+	const { level, override = false, manager: explicitManager, ...partOptions } = options
+	if (level !== undefined && level < 0 && level !== OVERRIDE_LEVEL) {
+		throw new Error(`Invalid level: ${level}. Level must be >= 0 or use the override option.`)
+	}
+
+	// Context is only readable during component initialization, which an explicit manager doesn't imply
+	const manager = explicitManager ?? getTitleManager()
+	const nestedLevel = explicitManager ? undefined : getTitleLevel()
+	const partLevel = override ? OVERRIDE_LEVEL : level ?? nestedLevel ?? manager.getNextLevel()
+
+	// Own registration, so siblings at the same level never replace or remove this part
+	const registration = manager.registerTitle(dev ? findSourceFile(new Error().stack) : undefined)
+
+	// SSR: effects don't run on the server, so register synchronously
+	if (typeof document === 'undefined') {
+		const text = getText()
+		if (text !== '') {
+			registration.set(partLevel, text, partOptions)
+		}
+		onDestroy(() => registration.remove())
+		return new TitleState(manager)
+	}
+
+	$effect(() => {
+		const text = getText()
+		if (text === '') {
+			registration.remove()
+		} else {
+			registration.set(partLevel, text, partOptions)
+		}
+	})
+
+	$effect(() => {
+		return () => registration.remove()
+	})
+
+	return new TitleState(manager)
+}
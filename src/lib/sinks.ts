@@ -0,0 +1,125 @@
+/**
+ * Receives each title the root Title displays, such as a native window title
+ * or a parent frame.
+ */
+export interface TitleSink {
+	/** Writes the displayed title */
+	write(title: string): void
+}
+
+/**
+ * Anything with a `postMessage` method, such as `window.parent` or a `MessagePort`.
+ */
+export interface TitleMessageTarget {
+	postMessage(message: unknown, targetOrigin: string): void
+}
+
+/**
+ * Options for `postMessageSink`.
+ */
+export interface PostMessageSinkOptions {
+	/** Value of the message's `type` field, to tell title messages apart (default: 'svelte-title') */
+	type?: string
+}
+
+/**
+ * Message posted by `postMessageSink`.
+ */
+export interface TitleMessage {
+	type: string
+	title: string
+}
+
+/**
+ * Default `type` of the messages posted by `postMessageSink`.
+ */
+export const DEFAULT_TITLE_MESSAGE_TYPE = 'svelte-title'
+
+/** Sinks created by documentTitleSink without a target, which the root Title renders into the head */
+const documentSinks = new WeakSet<TitleSink>()
+
+/**
+ * Creates the default sink: the title goes to `document.title`.
+ * Title components render it as `<svelte:head><title>`, so it's also rendered during SSR.
+ * With a target, the root Title calls `write` like for any other sink instead.
+ *
+ * @param target - Document to write to, or a fake in tests (default: `document`)
+ * @returns The sink
+ *
+ * @example
+ * <Title title="App" sinks={[documentTitleSink(), customSink(setWindowTitle)]} />
+ */
+export function documentTitleSink(target?: Pick<Document, 'title'>): TitleSink {
+	const sink: TitleSink = {
+		write(title) {
+			const doc = target ?? document
+			if (doc.title !== title) {
+				doc.title = title
+			}
+		}
+	}
+	if (target === undefined) {
+		documentSinks.add(sink)
+	}
+	return sink
+}
+
+/**
+ * Creates a sink that posts `{ type, title }` messages, e.g. to the page embedding an iframe.
+ *
+ * @param target - Window or port to post to, or a function returning it, which is
+ *   called on each write so the sink can be created during SSR
+ * @param targetOrigin - Origin the target must have, or '*' for any
+ * @param options - `type` of the messages
+ * @returns The sink
+ * @throws {Error} If targetOrigin is empty
+ *
+ * @example
+ * <Title title="Widget" sinks={[postMessageSink(() => window.parent, 'https://shop.example')]} />
+ */
+export function postMessageSink(
+	target: TitleMessageTarget | (() => TitleMessageTarget),
+	targetOrigin: string,
+	options: PostMessageSinkOptions = {}
+): TitleSink {
+	if (targetOrigin === '') {
+		throw new Error(`Invalid targetOrigin: empty string is not allowed. Use '*' to post to any origin.`)
+	}
+	const { type = DEFAULT_TITLE_MESSAGE_TYPE } = options
+	return {
+		write(title) {
+			const resolved = typeof target === 'function' ? target() : target
+			const message: TitleMessage = { type, title }
+			resolved.postMessage(message, targetOrigin)
+		}
+	}
+}
+
+/**
+ * Creates a sink that calls a function with each title.
+ *
+ * @param write - Called with each displayed title
+ * @returns The sink
+ *
+ * @example
+ * import { getCurrentWindow } from '@tauri-apps/api/window'
+ *
+ * const windowTitleSink = customSink((title) => getCurrentWindow().setTitle(title))
+ */
+export function customSink(write: (title: string) => void): TitleSink {
+	return { write }
+}
+
+/**
+ * Checks whether a sink was created by `documentTitleSink` without a target.
+ */
+export function isDocumentTitleSink(sink: TitleSink): boolean {
+	return documentSinks.has(sink)
+}
+
+/**
+ * Checks whether titles go to the document, which Title components do by rendering `<title>`.
+ */
+export function writesDocumentTitle(sinks: readonly TitleSink[]): boolean {
+	return sinks.some(isDocumentTitleSink)
+}
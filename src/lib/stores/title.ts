@@ -1,4 +1,8 @@
-import { writable } from 'svelte/store'
+import { dev } from '$app/environment'
+import { reportTitleDiagnostic } from '../diagnostics.js'
+import { derived, get, writable, type Readable, type Writable } from 'svelte/store'
+import { isValidTitlePart, normalizeTitleParts, validateNormalize, type TitleNormalizer } from '../normalize.js'
+import { documentTitleSink, type TitleSink } from '../sinks.js'
 
 /**
  * Special level value for override mode.
@@ -11,10 +15,49 @@ export const OVERRIDE_LEVEL = -1
  */
 export const DEFAULT_SEPARATOR = ' • '
 
+/**
+ * Default separator between sibling titles joined at the same level.
+ */
+export const DEFAULT_SIBLING_SEPARATOR = ', '
+
+/**
+ * Default format for the badge prefix, e.g. "(3) Inbox • App".
+ */
+export const DEFAULT_BADGE_FORMAT = '(%s) '
+
+/**
+ * Parameters interpolated into a translated title message.
+ */
+export type TitleMessageParams = Record<string, unknown>
+
+/**
+ * Translates a message key into title text, e.g. the `$_` or `t` function of an i18n library.
+ */
+export type TitleTranslator = (message: string, params?: TitleMessageParams) => string
+
+/**
+ * Optional details of a title part used when shortening and translating titles.
+ */
+export interface TitlePartOptions {
+	/** Shorter alternative text, used before the part is dropped by `maxLength` */
+	short?: string
+	/**
+	 * Truncation priority: lower values are shortened and dropped first (default 0).
+	 * For override parts it also picks the active override: the highest priority wins.
+	 */
+	priority?: number
+	/** Link target of this level in breadcrumbs */
+	href?: string
+	/** Message key translated into the title text by the registered translator */
+	message?: string
+	/** Parameters for the message */
+	params?: TitleMessageParams
+}
+
 /**
  * Represents a single part of the hierarchical title.
  */
-interface TitlePart {
+export interface TitlePart extends TitlePartOptions {
 	/** The hierarchy level (0 = root, 1+ = nested, -1 = override) */
 	level: number
 	/** The title text */
@@ -22,32 +65,931 @@ interface TitlePart {
 }
 
 /**
- * Internal map for O(1) title part lookups and updates.
- * Key: level, Value: title
+ * A single breadcrumb, in root-to-leaf order.
+ */
+export interface Breadcrumb {
+	/** The hierarchy level (0 = root, 1+ = nested, -1 = override) */
+	level: number
+	/** The title text */
+	title: string
+	/** Link target, if the level has one */
+	href?: string
+}
+
+/**
+ * Function that builds a title from its parts.
+ * Receives the parts in display order (most specific first, unless `direction`
+ * is 'general-first') and the separator.
+ */
+export type TitleFormatter = (parts: TitlePart[], separator: string) => string
+
+/**
+ * Title format: a template string where `%s` is replaced with the joined title
+ * (e.g. '%s — Acme'), or a formatter function.
+ */
+export type TitleFormat = string | TitleFormatter
+
+/**
+ * Order of the title parts: 'specific-first' ("Page • Section • App")
+ * or 'general-first' ("App • Section • Page").
+ */
+export type TitleDirection = 'specific-first' | 'general-first'
+
+/**
+ * Bidi isolation of title parts: 'auto' isolates them when any part contains
+ * right-to-left text, 'isolate' always does, 'none' never does.
+ */
+export type TitleBidi = 'auto' | 'isolate' | 'none'
+
+/**
+ * Options applied when building the final title string.
+ */
+export interface BuildTitleOptions {
+	/** Template string or formatter function for the final title */
+	format?: TitleFormat
+	/** Maximum title length in characters; longer titles are shortened */
+	maxLength?: number
+	/** Order of the title parts (default: 'specific-first') */
+	direction?: TitleDirection
+	/** Bidi isolation of each part (default: 'auto') */
+	bidi?: TitleBidi
+	/** Normalization pipeline: `true` for `DEFAULT_NORMALIZE_STEPS`, or a list of steps and transforms (default: false) */
+	normalize?: boolean | readonly TitleNormalizer[]
+}
+
+/**
+ * Badge shown in front of the title: an unread count, a short label, or null for none.
+ */
+export type TitleBadgeValue = number | string | null
+
+/**
+ * Badge prefix format: a template string where `%s` is replaced with the badge
+ * (e.g. '(%s) '), or a function returning the prefix.
+ */
+export type TitleBadgeFormat = string | ((badge: number | string) => string)
+
+/**
+ * How titles registered at the same level combine: the latest registration,
+ * the earliest one, or all of them joined.
+ */
+export type TitleSiblingPolicy = 'last-wins' | 'first-wins' | 'join'
+
+/**
+ * Options for titles registered at the same level.
+ */
+export interface TitleSiblingOptions {
+	/** How same-level titles combine (default: 'last-wins') */
+	siblings?: TitleSiblingPolicy
+	/** Separator between joined sibling titles (default: ', ') */
+	siblingSeparator?: string
+}
+
+/**
+ * Options set on the root Title: build options plus display-only options.
+ */
+export interface TitleOptions extends BuildTitleOptions, TitleSiblingOptions {
+	/** Format of the badge prefix (default: '(%s) ') */
+	badgeFormat?: TitleBadgeFormat
+	/** Message key of the separator, translated by the registered translator */
+	separatorMessage?: string
+	/** Message key of the format template, translated by the registered translator */
+	formatMessage?: string
+}
+
+/**
+ * Options for `flashTitle`.
+ */
+export interface FlashTitleOptions {
+	/** Milliseconds between switching texts (default: 1000) */
+	interval?: number
+	/** Stop when the tab becomes visible, or after a number of milliseconds (default: 'visible') */
+	until?: 'visible' | number
+}
+
+/**
+ * Default milliseconds between switching texts in `flashTitle`.
+ */
+export const DEFAULT_FLASH_INTERVAL = 1000
+
+/**
+ * Context of a reported title change.
+ */
+export interface TitleChangeMeta {
+	/** Path of the page when the change settled, or null outside the browser */
+	pathname: string | null
+	/** When the change settled, in milliseconds since the epoch */
+	timestamp: number
+}
+
+/**
+ * Called with the new and previous title each time the built title changes.
+ */
+export type TitleChangeListener = (next: string, prev: string, meta: TitleChangeMeta) => void
+
+/**
+ * A title in the title history.
+ */
+export interface TitleHistoryEntry extends TitleChangeMeta {
+	/** The built title, without badge or attention text */
+	title: string
+}
+
+/**
+ * Options for `createTitleManager`.
+ */
+export interface TitleManagerOptions {
+	/** Maximum number of entries kept in `titleHistory` (default: 50) */
+	historySize?: number
+}
+
+/**
+ * Default maximum number of entries kept in `titleHistory`.
+ */
+export const DEFAULT_HISTORY_SIZE = 50
+
+/**
+ * Maximum number of calls kept in `titleTimeline`.
+ */
+export const TITLE_TIMELINE_SIZE = 100
+
+/**
+ * A `set` or `remove` call recorded in the title timeline.
+ */
+export interface TitleTimelineEntry {
+	/** Whether the part was set or removed */
+	action: 'set' | 'remove'
+	/** The level of the part */
+	level: number
+	/** The title that was set or removed */
+	title: string
+	/** Component file that registered the part, when known */
+	source?: string
+	/** Path of the page when the call was made */
+	pathname: string | null
+	/** When the call was made, in milliseconds since the epoch */
+	timestamp: number
+}
+
+/**
+ * A part as registered with the manager, before siblings are combined.
+ */
+export interface TitleInspectorPart extends TitlePart {
+	/** Component file that registered the part, when known */
+	source?: string
+	/** Whether the part is an override */
+	override: boolean
+	/** Whether the part comes from page data */
+	data: boolean
+}
+
+/**
+ * Snapshot of a manager's state, for debugging wrong titles.
+ */
+export interface TitleInspection {
+	/** Every registered part and page data title, sorted by level and then registration order */
+	parts: TitleInspectorPart[]
+	/** The current separator */
+	separator: string
+	/** The level counter: the next level `getNextLevel()` tries */
+	counter: number
+}
+
+/**
+ * A single title registration with its own identity.
+ * Siblings at the same level are separate registrations, so removing one never removes another.
+ */
+export interface TitleRegistration {
+	/** Sets or updates this registration's part, moving it when the level changes */
+	set(level: number, title: string, options?: TitlePartOptions): void
+	/** Removes this registration's part, leaving other registrations at its level */
+	remove(): void
+}
+
+/**
+ * Handle for an override pushed with `pushTitle`.
+ */
+export interface TitleOverride {
+	/** Changes the text or options of this override, keeping its place in the stack */
+	update(title: string, options?: TitlePartOptions): void
+	/** Removes this override, revealing the previous one or the cascaded title */
+	pop(): void
+}
+
+/**
+ * An isolated set of title state: parts, separator and level counter.
+ * Each manager is independent, so concurrent SSR requests or embedded
+ * sub-apps using their own manager never share titles.
+ */
+export interface TitleManager {
+	/** Store containing all active title parts, sorted by level */
+	titleParts: Writable<TitlePart[]>
+	/** Store containing the current title separator */
+	titleSeparator: Writable<string>
+	/** Store containing the options set on the root Title */
+	titleOptions: Writable<TitleOptions>
+	/** Store containing the current badge, kept outside the level hierarchy */
+	titleBadge: Writable<TitleBadgeValue>
+	/** Store containing the attention text shown instead of the title right now, or null */
+	titleAttention: Readable<string | null>
+	/** Store containing the displayed title: the attention text, or the built title with its badge prefix */
+	currentTitle: Readable<string>
+	/** Store containing the breadcrumb trail built from the title parts, root first */
+	breadcrumbs: Readable<Breadcrumb[]>
+	/** Store containing the most recent reported titles, oldest first; recording starts on first subscription */
+	titleHistory: Readable<TitleHistoryEntry[]>
+	/** Store containing the most recent set and remove calls, oldest first; only recorded in development */
+	titleTimeline: Readable<TitleTimelineEntry[]>
+	/** Store containing the sinks the root Title writes the displayed title to */
+	titleSinks: Readable<readonly TitleSink[]>
+	/** Gets the next available hierarchy level */
+	getNextLevel(): number
+	/** Clears all parts, the level counter and the separator */
+	clearTitleState(): void
+	/** Resets the level counter for route changes */
+	resetLevelCounter(): void
+	/** Sets the title separator */
+	setSeparator(separator: string): void
+	/** Sets the options set on the root Title */
+	setTitleOptions(options: TitleOptions): void
+	/** Sets the badge shown in front of the title */
+	setTitleBadge(badge: TitleBadgeValue): void
+	/** Creates a title registration; components use one each so same-level siblings stay separate */
+	registerTitle(source?: string): TitleRegistration
+	/** Holds title changes until the returned release function is called, then commits them at once */
+	holdTitle(): () => void
+	/** Pushes an override title onto the override stack; returns a handle to update or pop it */
+	pushTitle(title: string, options?: TitlePartOptions): TitleOverride
+	/** Sets or updates the part at a specific hierarchy level, shared by all setTitlePart calls for that level */
+	setTitlePart(level: number, title: string, options?: TitlePartOptions): void
+	/** Removes every part at a specific hierarchy level */
+	removeTitlePart(level: number): void
+	/** Sets titles from page data at consecutive levels; Title components at the same level win */
+	setDataTitles(titles: string[], startLevel?: number): void
+	/** Registers the translator for message parts; a store re-translates all parts at once when it changes */
+	setTitleTranslator(translator: TitleTranslator | Readable<TitleTranslator> | null): void
+	/** Sets the sinks the root Title writes to; null restores the document title sink */
+	setTitleSinks(sinks: readonly TitleSink[] | null): void
+	/** Translates a message with the registered translator, or returns undefined without one */
+	translateTitle(message: string, params?: TitleMessageParams): string | undefined
+	/** Alternates the title with an attention text; returns a function that stops it */
+	flashTitle(text: string, options?: FlashTitleOptions): () => void
+	/** Stops a running flashTitle and restores the normal title */
+	stopFlashTitle(): void
+	/** Calls the listener each time the built title settles on a new value; returns a function that unsubscribes */
+	onTitleChange(listener: TitleChangeListener): () => void
+	/** Returns the registered parts, separator and level counter, for debugging */
+	inspectTitle(): TitleInspection
+	/** Builds the title string, defaulting to this manager's parts, separator and options; translates message options */
+	buildTitle(parts?: TitlePart[], separator?: string, options?: TitleOptions): string
+}
+
+/**
+ * Detects if we're running in SSR (server-side rendering) environment.
+ */
+function isSSR(): boolean {
+	return typeof document === 'undefined'
+}
+
+/**
+ * Creates an isolated title manager.
+ *
+ * @param options - `historySize` of the title history (default 50)
+ * @returns A new manager with empty parts and the default separator
+ * @throws {Error} If historySize is not a positive integer
+ *
+ * @example
+ * const manager = createTitleManager()
+ * manager.setTitlePart(0, 'App')
+ * manager.setTitlePart(1, 'Settings')
+ * manager.buildTitle() // "Settings • App"
+ */
+export function createTitleManager(options: TitleManagerOptions = {}): TitleManager {
+	const { historySize = DEFAULT_HISTORY_SIZE } = options
+	if (!Number.isInteger(historySize) || historySize <= 0) {
+		throw new Error(`Invalid historySize: ${historySize}. Must be a positive integer.`)
+	}
+
+	/**
+	 * Internal map of registered title parts, in registration order.
+	 * Key: registration id, Value: title part
+	 */
+	const titlePartsMap = new Map<number, TitlePart>()
+
+	/** Registrations used by setTitlePart, one per level */
+	const levelRegistrations = new Map<number, TitleRegistration>()
+	let nextRegistrationId = 0
+
+	/**
+	 * When each registration joined its current level, so the latest sibling
+	 * or override can be found even after earlier ones were updated.
+	 * Key: registration id, Value: sequence number
+	 */
+	const joinedLevelAt = new Map<number, number>()
+	let joinCounter = 0
+	const titleParts = writable<TitlePart[]>([])
+	const titleSeparator = writable<string>(DEFAULT_SEPARATOR)
+	const titleOptions = writable<TitleOptions>({})
+	const titleBadge = writable<TitleBadgeValue>(null)
+	const titleAttention = writable<string | null>(null)
+	const defaultSinks = [documentTitleSink()]
+	const titleSinks = writable<readonly TitleSink[]>(defaultSinks)
+
+	/** Translator for message parts, separator and format, if registered */
+	let translate: TitleTranslator | null = null
+	let unsubscribeTranslator: (() => void) | null = null
+
+	const currentTitle = derived(
+		[titleParts, titleSeparator, titleOptions, titleBadge, titleAttention],
+		([parts, separator, options, badge, attention]) =>
+			attention ?? formatTitleBadge(buildLocalizedTitle(parts, separator, options), badge, options.badgeFormat)
+	)
+	const breadcrumbs = derived(titleParts, getBreadcrumbs)
+	let renderCounter = 0
+	/** Levels handed out by getNextLevel since the last reset, to tell counter drift from deliberate gaps */
+	const autoLevels = new Set<number>()
+	/**
+	 * Render-order levels still in use that were handed out before the last reset.
+	 * A page takes its level before the root layout's reset effect runs, so gaps below them are expected.
+	 */
+	const resetAutoLevels = new Set<number>()
+
+	/** The built title without badge or attention text, as reported to change listeners */
+	const settledTitle = derived([titleParts, titleSeparator, titleOptions], ([parts, separator, options]) =>
+		buildLocalizedTitle(parts, separator, options)
+	)
+	const history = writable<TitleHistoryEntry[]>([])
+	const changeListeners = new Set<TitleChangeListener>()
+	let reportedTitle = ''
+	let reportTimeout: ReturnType<typeof setTimeout> | undefined
+	let trackingChanges = false
+
+	const titleHistory: Readable<TitleHistoryEntry[]> = {
+		subscribe(run, invalidate) {
+			trackChanges()
+			return history.subscribe(run, invalidate)
+		}
+	}
+
+	/** Recent set and remove calls, recorded in development */
+	const timeline = writable<TitleTimelineEntry[]>([])
+	/**
+	 * Component files that registered the current parts, recorded in development.
+	 * Key: registration id, Value: file path
+	 */
+	const sources = new Map<number, string>()
+
+	/**
+	 * Titles declared in page data.
+	 * Key: level, Value: title (empty while a streamed title is still loading)
+	 */
+	const dataTitlesMap = new Map<number, string>()
+
+	/** Options set since the last commit, applied together with the parts */
+	let stagedOptions: TitleOptions | null = null
+	/** Whether registered parts changed since the last commit */
+	let commitPending = false
+	/** Active holds from holdTitle; commits wait until every one is released */
+	const holds = new Set<symbol>()
+
+	/** Teardown of the running flashTitle, if any */
+	let stopFlash: (() => void) | null = null
+
+	/**
+	 * Schedules a commit of the registered parts to the store.
+	 * In the browser, changes made in the same task are committed together in a
+	 * microtask, and not at all while a hold is active, so a page swap never shows
+	 * its intermediate titles. On the server it commits right away, since each
+	 * Title renders the title built so far.
+	 */
+	function scheduleCommit() {
+		if (holds.size > 0) {
+			commitPending = true
+			return
+		}
+		if (isSSR()) {
+			commit()
+			return
+		}
+		if (commitPending) return
+		commitPending = true
+		queueMicrotask(() => {
+			if (commitPending && holds.size === 0) commit()
+		})
+	}
+
+	/** Writes the pending parts, and the options staged with them, to the stores */
+	function commit() {
+		commitPending = false
+		const options = stagedOptions ?? get(titleOptions)
+		syncMapToStore(options)
+		if (stagedOptions) {
+			stagedOptions = null
+			titleOptions.set(options)
+		}
+		// On the server parts register one by one, so only committed browser titles are complete
+		if (dev && !isSSR()) {
+			checkLevelGaps()
+		}
+	}
+
+	/**
+	 * Helper function to sync the Map to the store.
+	 * Translates message parts, combines same-level siblings into one part per level,
+	 * and fills the levels no Title component has set with data titles.
+	 */
+	function syncMapToStore(options: TitleOptions) {
+		const registeredParts = mergeTitleSiblings(
+			Array.from(titlePartsMap)
+				.sort(([a], [b]) => (joinedLevelAt.get(a) ?? 0) - (joinedLevelAt.get(b) ?? 0))
+				.map(([, part]) =>
+					part.message !== undefined && translate ? { ...part, title: translate(part.message, part.params) } : part
+				),
+			options
+		)
+		const dataParts: TitlePart[] = Array.from(dataTitlesMap, ([level, title]) => ({ level, title }))
+			.filter(part => part.title !== '' && !hasLevel(part.level))
+		const parts: TitlePart[] = [...registeredParts, ...dataParts]
+			.sort((a, b) => a.level - b.level)
+		titleParts.set(parts)
+	}
+
+	function hasLevel(level: number): boolean {
+		for (const part of titlePartsMap.values()) {
+			if (part.level === level) return true
+		}
+		return false
+	}
+
+	/**
+	 * Warns in development when a title joins a cascade level that already has one
+	 * and the root Title hasn't chosen a sibling policy.
+	 */
+	function warnSiblingCollision(level: number, title: string) {
+		// Stacked overrides are expected, so only cascade levels can collide
+		if (!dev || level === OVERRIDE_LEVEL || (stagedOptions ?? get(titleOptions)).siblings !== undefined) return
+		const existing = Array.from(titlePartsMap.values()).find(part => part.level === level)
+		if (existing) {
+			reportTitleDiagnostic(
+				'sibling_collision',
+				`"${existing.title}" and "${title}" are both registered at level ${level}; showing "${title}". ` +
+				`Set the siblings option on the root Title to choose how same-level titles combine.`
+			)
+		}
+	}
+
+	/**
+	 * Warns in development when cascade levels below the highest one have no title.
+	 * A render-order title above the gap means the level counter kept counting from
+	 * the previous page; otherwise explicit levels or nesting skipped a level.
+	 * Gaps right below render-order titles that took their level before the last
+	 * reset are left out, since resetting the counter is all an app can do about them.
+	 */
+	function checkLevelGaps() {
+		const allParts = [
+			...Array.from(titlePartsMap.values()).filter(part => part.level !== OVERRIDE_LEVEL),
+			...Array.from(dataTitlesMap, ([level, title]) => ({ level, title }))
+		]
+		const levels = new Set(allParts.map(part => part.level))
+		const parts = allParts.filter(part => !resetAutoLevels.has(part.level))
+		const empty: number[] = []
+		let gap: number[] = []
+		for (let level = 0; level <= Math.max(-1, ...levels); level++) {
+			if (!levels.has(level)) {
+				gap.push(level)
+				continue
+			}
+			if (!resetAutoLevels.has(level)) empty.push(...gap)
+			gap = []
+		}
+		if (empty.length === 0) return
+
+		const emptyLevels = `${empty.length === 1 ? 'Level' : 'Levels'} ${empty.join(', ')}`
+		const drifted = parts.find(part => part.level > empty[0] && autoLevels.has(part.level))
+		if (drifted) {
+			reportTitleDiagnostic(
+				'level_counter_not_reset',
+				`"${drifted.title}" got level ${drifted.level} from render order, but ${emptyLevels.toLowerCase()} ${empty.length === 1 ? 'is' : 'are'} empty: ` +
+				`the level counter kept counting from the previous page. ` +
+				`Call resetLevelCounter() in a root layout $effect that reads page.url.pathname, or render the Title inside a <Title> or <TitleBoundary>.`
+			)
+			return
+		}
+		const above = parts.find(part => part.level > empty[0]) as TitlePart
+		reportTitleDiagnostic(
+			'level_gap',
+			`${emptyLevels} ${empty.length === 1 ? 'has' : 'have'} no title, though "${above.title}" is at level ${above.level}. ` +
+			`Check the explicit level props, or let nesting assign levels by rendering titles inside a <Title> or <TitleBoundary>.`
+		)
+	}
+
+	/**
+	 * Builds the title with the separator and format messages translated.
+	 * Reads the translator when the parts change, so a locale switch updates everything at once.
+	 */
+	function buildLocalizedTitle(parts: TitlePart[], separator: string, options: TitleOptions): string {
+		const { separatorMessage, formatMessage, ...buildOptions } = options
+		const localizedSeparator = separatorMessage !== undefined ? translateTitle(separatorMessage) : undefined
+		const localizedFormat = formatMessage !== undefined ? translateTitle(formatMessage) : undefined
+		return buildTitle(parts, localizedSeparator ?? separator, {
+			...buildOptions,
+			...(localizedFormat !== undefined ? { format: localizedFormat } : {})
+		})
+	}
+
+	/**
+	 * Starts following the built title; keeps running so history survives its subscribers.
+	 * Updates are debounced to the next task, so the parts removed and added
+	 * during one navigation are reported as a single change.
+	 */
+	function trackChanges() {
+		if (trackingChanges) return
+		trackingChanges = true
+		settledTitle.subscribe(() => {
+			clearTimeout(reportTimeout)
+			reportTimeout = setTimeout(reportChange, 0)
+		})
+	}
+
+	function reportChange() {
+		const next = get(settledTitle)
+		// Empty titles only appear between pages, so they are never reported
+		if (next === '' || next === reportedTitle) return
+
+		const prev = reportedTitle
+		reportedTitle = next
+		const meta: TitleChangeMeta = { pathname: isSSR() ? null : location.pathname, timestamp: Date.now() }
+		history.update(entries => [...entries, { title: next, ...meta }].slice(-historySize))
+		for (const listener of changeListeners) {
+			listener(next, prev, meta)
+		}
+	}
+
+	/** Records a call in the timeline; skipped in production and on the server */
+	function recordCall(action: TitleTimelineEntry['action'], part: TitlePart, source: string | undefined) {
+		if (!dev || isSSR()) return
+		const entry: TitleTimelineEntry = { action, level: part.level, title: part.title, pathname: globalThis.location?.pathname ?? null, timestamp: Date.now() }
+		if (source !== undefined) entry.source = source
+		timeline.update(entries => [...entries, entry].slice(-TITLE_TIMELINE_SIZE))
+	}
+
+	function inspectTitle(): TitleInspection {
+		const registered = Array.from(titlePartsMap)
+			.sort(([a], [b]) => (joinedLevelAt.get(a) ?? 0) - (joinedLevelAt.get(b) ?? 0))
+			.map(([id, part]): TitleInspectorPart => {
+				const inspected: TitleInspectorPart = { ...part, override: part.level === OVERRIDE_LEVEL, data: false }
+				const source = sources.get(id)
+				if (source !== undefined) inspected.source = source
+				return inspected
+			})
+		const data = Array.from(dataTitlesMap, ([level, title]): TitleInspectorPart => ({ level, title, override: false, data: true }))
+		return {
+			parts: [...registered, ...data].sort((a, b) => a.level - b.level),
+			separator: get(titleSeparator),
+			counter: renderCounter
+		}
+	}
+
+	function onTitleChange(listener: TitleChangeListener): () => void {
+		changeListeners.add(listener)
+		trackChanges()
+		return () => {
+			changeListeners.delete(listener)
+		}
+	}
+
+	function getNextLevel(): number {
+		// Find next available level that doesn't conflict with explicit or data levels
+		while (hasLevel(renderCounter) || dataTitlesMap.has(renderCounter)) {
+			renderCounter++
+		}
+		if (dev) autoLevels.add(renderCounter)
+		return renderCounter++
+	}
+
+	function clearTitleState() {
+		titlePartsMap.clear()
+		levelRegistrations.clear()
+		joinedLevelAt.clear()
+		dataTitlesMap.clear()
+		holds.clear()
+		stagedOptions = null
+		commitPending = false
+		renderCounter = 0
+		autoLevels.clear()
+		resetAutoLevels.clear()
+		titleParts.set([])
+		titleSeparator.set(DEFAULT_SEPARATOR) // Reset to default to prevent cross-request leaks
+		titleOptions.set({})
+		titleBadge.set(null)
+		stopFlashTitle()
+		setTitleTranslator(null)
+		titleSinks.set(defaultSinks)
+		clearTimeout(reportTimeout)
+		reportedTitle = ''
+		history.set([])
+		timeline.set([])
+		sources.clear()
+	}
+
+	function resetLevelCounter() {
+		// In SSR, clear all state to prevent cross-request leaks
+		if (isSSR()) {
+			clearTitleState()
+			return
+		}
+
+		// Find the highest level currently in use (excluding override level)
+		const levels = Array.from(titlePartsMap.values(), part => part.level).filter(l => l !== OVERRIDE_LEVEL)
+		const maxLevel = levels.length > 0 ? Math.max(...levels) : -1
+
+		// Reset counter to continue after the highest active level
+		renderCounter = maxLevel + 1
+		for (const level of [...autoLevels, ...resetAutoLevels]) {
+			if (levels.includes(level)) {
+				resetAutoLevels.add(level)
+			} else {
+				resetAutoLevels.delete(level)
+			}
+		}
+		autoLevels.clear()
+	}
+
+	function setSeparator(separator: string) {
+		if (separator === '') {
+			throw new Error('Invalid separator: empty string is not allowed.')
+		}
+		titleSeparator.set(separator)
+	}
+
+	function setTitleOptions(options: TitleOptions) {
+		validateTitleOptions(options)
+		// Siblings may combine differently under the new options, so apply both in one commit
+		stagedOptions = options
+		scheduleCommit()
+	}
+
+	function setTitleBadge(badge: TitleBadgeValue) {
+		titleBadge.set(badge)
+	}
+
+	function registerTitle(source?: string): TitleRegistration {
+		const id = nextRegistrationId++
+		// Sources only help while debugging, so production builds never keep them
+		const devSource = dev ? source : undefined
+		return {
+			set(level: number, title: string, options: TitlePartOptions = {}) {
+				if (titlePartsMap.get(id)?.level !== level) {
+					warnSiblingCollision(level, title)
+					joinedLevelAt.set(id, joinCounter++)
+				}
+				const part: TitlePart = { level, title }
+				if (options.short !== undefined) part.short = options.short
+				if (options.priority !== undefined) part.priority = options.priority
+				if (options.href !== undefined) part.href = options.href
+				if (options.message !== undefined) part.message = options.message
+				if (options.params !== undefined) part.params = options.params
+				titlePartsMap.set(id, part)
+				if (devSource !== undefined) sources.set(id, devSource)
+				recordCall('set', part, devSource)
+				scheduleCommit()
+			},
+			remove() {
+				joinedLevelAt.delete(id)
+				const part = titlePartsMap.get(id)
+				if (part) {
+					titlePartsMap.delete(id)
+					sources.delete(id)
+					recordCall('remove', part, devSource)
+					scheduleCommit()
+				}
+			}
+		}
+	}
+
+	function holdTitle(): () => void {
+		const hold = Symbol('hold')
+		holds.add(hold)
+		return () => {
+			if (holds.delete(hold) && holds.size === 0 && commitPending) {
+				commit()
+			}
+		}
+	}
+
+	function pushTitle(title: string, options: TitlePartOptions = {}): TitleOverride {
+		const registration = registerTitle()
+		registration.set(OVERRIDE_LEVEL, title, options)
+		return {
+			update: (newTitle: string, newOptions: TitlePartOptions = {}) => registration.set(OVERRIDE_LEVEL, newTitle, newOptions),
+			pop: () => registration.remove()
+		}
+	}
+
+	function setTitlePart(level: number, title: string, options: TitlePartOptions = {}) {
+		let registration = levelRegistrations.get(level)
+		if (!registration) {
+			registration = registerTitle()
+			levelRegistrations.set(level, registration)
+		}
+		registration.set(level, title, options)
+	}
+
+	function removeTitlePart(level: number) {
+		for (const [id, part] of titlePartsMap) {
+			if (part.level === level) {
+				titlePartsMap.delete(id)
+				joinedLevelAt.delete(id)
+				recordCall('remove', part, sources.get(id))
+				sources.delete(id)
+			}
+		}
+		levelRegistrations.delete(level)
+		scheduleCommit()
+	}
+
+	function setDataTitles(titles: string[], startLevel = 0) {
+		dataTitlesMap.clear()
+		titles.forEach((title, index) => dataTitlesMap.set(startLevel + index, title))
+		scheduleCommit()
+	}
+
+	function setTitleTranslator(translator: TitleTranslator | Readable<TitleTranslator> | null) {
+		unsubscribeTranslator?.()
+		unsubscribeTranslator = null
+
+		if (translator === null || typeof translator === 'function') {
+			translate = translator
+			scheduleCommit()
+			return
+		}
+
+		// Re-translate every part in a single store update so the title never mixes locales
+		unsubscribeTranslator = translator.subscribe((value) => {
+			translate = value
+			scheduleCommit()
+		})
+	}
+
+	function setTitleSinks(sinks: readonly TitleSink[] | null) {
+		titleSinks.set(sinks ?? defaultSinks)
+	}
+
+	function translateTitle(message: string, params?: TitleMessageParams): string | undefined {
+		return translate ? translate(message, params) : undefined
+	}
+
+	function flashTitle(text: string, options: FlashTitleOptions = {}): () => void {
+		const { interval = DEFAULT_FLASH_INTERVAL, until = 'visible' } = options
+		if (!Number.isFinite(interval) || interval <= 0) {
+			throw new Error(`Invalid interval: ${interval}. Must be a positive number of milliseconds.`)
+		}
+
+		stopFlashTitle()
+
+		// Nothing to flash on the server, or for a tab the user is already looking at
+		if (isSSR() || (until === 'visible' && !document.hidden)) {
+			return () => {}
+		}
+
+		let showingText = true
+		titleAttention.set(text)
+		const intervalId = setInterval(() => {
+			showingText = !showingText
+			titleAttention.set(showingText ? text : null)
+		}, interval)
+
+		const onVisibilityChange = () => {
+			if (!document.hidden) {
+				stop()
+			}
+		}
+		let timeoutId: ReturnType<typeof setTimeout> | undefined
+		if (until === 'visible') {
+			document.addEventListener('visibilitychange', onVisibilityChange)
+		} else {
+			timeoutId = setTimeout(() => stop(), until)
+		}
+
+		function stop() {
+			if (stopFlash !== stop) return
+			clearInterval(intervalId)
+			clearTimeout(timeoutId)
+			document.removeEventListener('visibilitychange', onVisibilityChange)
+			stopFlash = null
+			titleAttention.set(null)
+		}
+
+		stopFlash = stop
+		return stop
+	}
+
+	function stopFlashTitle() {
+		stopFlash?.()
+	}
+
+	return {
+		titleParts,
+		titleSeparator,
+		titleOptions,
+		titleBadge,
+		titleAttention,
+		currentTitle,
+		breadcrumbs,
+		titleHistory,
+		titleTimeline: { subscribe: timeline.subscribe },
+		titleSinks: { subscribe: titleSinks.subscribe },
+		getNextLevel,
+		clearTitleState,
+		resetLevelCounter,
+		setSeparator,
+		setTitleOptions,
+		setTitleBadge,
+		registerTitle,
+		pushTitle,
+		holdTitle,
+		setTitlePart,
+		removeTitlePart,
+		setDataTitles,
+		setTitleTranslator,
+		setTitleSinks,
+		translateTitle,
+		flashTitle,
+		stopFlashTitle,
+		onTitleChange,
+		inspectTitle,
+		buildTitle: (parts = get(titleParts), separator = get(titleSeparator), options = get(titleOptions)) =>
+			buildLocalizedTitle(parts, separator, options)
+	}
+}
+
+/**
+ * Manager used when no manager is provided through context.
+ * The module-level exports below all operate on this instance.
  */
-const titlePartsMap = new Map<number, string>()
+export const defaultTitleManager = createTitleManager()
 
 /**
  * Store containing all active title parts as an array.
  * Parts are automatically sorted by level.
  * Internally uses a Map for efficient O(1) operations.
  */
-export const titleParts = writable<TitlePart[]>([])
+export const titleParts = defaultTitleManager.titleParts
 
 /**
  * Store containing the current title separator.
  * Default: ' • '
  */
-export const titleSeparator = writable<string>(DEFAULT_SEPARATOR)
+export const titleSeparator = defaultTitleManager.titleSeparator
 
-let renderCounter = 0
+/**
+ * Store containing the options set on the root Title (e.g. `format`).
+ * Default: {}
+ */
+export const titleOptions = defaultTitleManager.titleOptions
 
 /**
- * Detects if we're running in SSR (server-side rendering) environment.
+ * Store containing the current title badge.
+ * Default: null
  */
-function isSSR(): boolean {
-	return typeof document === 'undefined'
-}
+export const titleBadge = defaultTitleManager.titleBadge
+
+/**
+ * Store containing the attention text shown instead of the title right now.
+ * Default: null
+ */
+export const titleAttention = defaultTitleManager.titleAttention
+
+/**
+ * Store containing the displayed title: the attention text while `flashTitle`
+ * shows it, otherwise the built title with its badge prefix.
+ */
+export const currentTitle = defaultTitleManager.currentTitle
+
+/**
+ * Store containing the breadcrumb trail built from the title parts, root first.
+ * In override mode it only contains the override part.
+ */
+export const breadcrumbs = defaultTitleManager.breadcrumbs
+
+/**
+ * Store containing the most recent titles reported by `onTitleChange`, oldest first,
+ * each with its pathname and timestamp. Keeps the last 50 entries.
+ * Recording starts with the first subscription or `onTitleChange` call.
+ */
+export const titleHistory = defaultTitleManager.titleHistory
+
+/**
+ * Store containing the most recent `set` and `remove` calls, oldest first,
+ * each with the component file that made it, the pathname and a timestamp.
+ * Keeps the last 100 calls, and is only recorded in development.
+ */
+export const titleTimeline = defaultTitleManager.titleTimeline
+
+/**
+ * Store containing the sinks the root Title writes the displayed title to.
+ * Default: a `documentTitleSink()`
+ */
+export const titleSinks = defaultTitleManager.titleSinks
 
 /**
  * Gets the next available hierarchy level.
@@ -61,11 +1003,7 @@ function isSSR(): boolean {
  * const level2 = getNextLevel() // 1
  */
 export function getNextLevel(): number {
-	// Find next available level that doesn't conflict with existing explicit levels
-	while (titlePartsMap.has(renderCounter)) {
-		renderCounter++
-	}
-	return renderCounter++
+	return defaultTitleManager.getNextLevel()
 }
 
 /**
@@ -80,10 +1018,7 @@ export function getNextLevel(): number {
  * }
  */
 export function clearTitleState() {
-	titlePartsMap.clear()
-	renderCounter = 0
-	titleParts.set([])
-	titleSeparator.set(DEFAULT_SEPARATOR) // Reset to default to prevent cross-request leaks
+	defaultTitleManager.clearTitleState()
 }
 
 /**
@@ -108,18 +1043,7 @@ export function clearTitleState() {
  * })
  */
 export function resetLevelCounter() {
-	// In SSR, clear all state to prevent cross-request leaks
-	if (isSSR()) {
-		clearTitleState()
-		return
-	}
-
-	// Find the highest level currently in use (excluding override level)
-	const levels = Array.from(titlePartsMap.keys()).filter(l => l !== OVERRIDE_LEVEL)
-	const maxLevel = levels.length > 0 ? Math.max(...levels) : -1
-
-	// Reset counter to continue after the highest active level
-	renderCounter = maxLevel + 1
+	defaultTitleManager.resetLevelCounter()
 }
 
 /**
@@ -133,42 +1057,115 @@ export function resetLevelCounter() {
  * setSeparator(' | ') // Results in "Page | Section | Root"
  */
 export function setSeparator(separator: string) {
-	if (separator === '') {
-		throw new Error('Invalid separator: empty string is not allowed.')
-	}
-	titleSeparator.set(separator)
+	defaultTitleManager.setSeparator(separator)
+}
+
+/**
+ * Sets the options used to build cascading titles.
+ * Only the root-level Title component should call this.
+ *
+ * @param options - Build options such as `format` and `maxLength`
+ * @throws {Error} If a format template does not contain '%s'
+ * @throws {Error} If maxLength is not a positive integer
+ *
+ * @example
+ * setTitleOptions({ format: '[STAGING] %s' }) // Results in "[STAGING] Page • Root"
+ */
+export function setTitleOptions(options: TitleOptions) {
+	defaultTitleManager.setTitleOptions(options)
+}
+
+/**
+ * Sets the badge shown in front of the title, such as an unread count.
+ * The badge sits outside the level hierarchy, so title parts and override
+ * mode never replace it. `null`, `0` and `''` remove the badge.
+ *
+ * @param badge - The count or label to show, or null for none
+ *
+ * @example
+ * setTitleBadge(3) // "(3) Inbox • App"
+ * setTitleBadge(null) // "Inbox • App"
+ */
+export function setTitleBadge(badge: TitleBadgeValue) {
+	defaultTitleManager.setTitleBadge(badge)
+}
+
+/**
+ * Creates a title registration with its own identity, as used by Title components.
+ * Registrations at the same level are siblings combined by the root Title's
+ * `siblings` policy, and removing one never removes another.
+ *
+ * @param source - Component file creating the registration, shown by `<TitleInspector>` in development
+ * @returns The registration, with `set` and `remove`
+ *
+ * @example
+ * const registration = registerTitle()
+ * registration.set(1, 'Inbox')
+ * registration.remove()
+ */
+export function registerTitle(source?: string): TitleRegistration {
+	return defaultTitleManager.registerTitle(source)
 }
 
 /**
- * Helper function to sync the Map to the store.
- * Converts Map entries to sorted array and updates the store.
+ * Holds title changes until the returned function is called, then commits them
+ * in a single update. The root `<Title>` holds during every client-side
+ * navigation, so the tab never shows the titles in between pages.
+ *
+ * Holds nest: changes are committed when the last active hold is released.
+ * Releasing twice does nothing.
+ *
+ * @returns A function that releases the hold
+ *
+ * @example
+ * const release = holdTitle()
+ * removeTitlePart(2)
+ * setTitlePart(2, 'Drafts')
+ * release() // one update: "Drafts • Mail"
  */
-function syncMapToStore() {
-	const parts: TitlePart[] = Array.from(titlePartsMap.entries())
-		.map(([level, title]) => ({ level, title }))
-		.sort((a, b) => a.level - b.level)
-	titleParts.set(parts)
+export function holdTitle(): () => void {
+	return defaultTitleManager.holdTitle()
+}
+
+/**
+ * Pushes an override title onto the override stack, for code outside components
+ * such as dialog libraries. The active override is the one with the highest
+ * `priority`, and among equal priorities the latest; popping it reveals the
+ * previous override, or the cascaded title when none is left.
+ *
+ * @param title - The override title text
+ * @param options - Optional `priority` (default 0) and other part options
+ * @returns A handle to update or pop this override
+ *
+ * @example
+ * const override = pushTitle('Unsaved changes', { priority: 10 })
+ * // later, when the dialog closes
+ * override.pop()
+ */
+export function pushTitle(title: string, options?: TitlePartOptions): TitleOverride {
+	return defaultTitleManager.pushTitle(title, options)
 }
 
 /**
  * Sets or updates a title part at a specific hierarchy level.
- * If a part already exists at that level, it will be replaced.
+ * Calls for the same level share one registration, so a later call replaces
+ * the earlier one; Title components at that level are its siblings.
  *
  * @param level - The hierarchy level (0+) or OVERRIDE_LEVEL (-1)
  * @param title - The title text
+ * @param options - Optional `short` text and `priority` used by `maxLength`
  *
  * @example
  * setTitlePart(0, 'My App')
- * setTitlePart(1, 'Settings')
+ * setTitlePart(1, 'Organization Settings', { short: 'Settings' })
  */
-export function setTitlePart(level: number, title: string) {
-	titlePartsMap.set(level, title)
-	syncMapToStore()
+export function setTitlePart(level: number, title: string, options?: TitlePartOptions) {
+	defaultTitleManager.setTitlePart(level, title, options)
 }
 
 /**
- * Removes a title part at a specific hierarchy level.
- * Called automatically when a Title component is destroyed.
+ * Removes every title part at a specific hierarchy level,
+ * including those of Title components.
  *
  * @param level - The hierarchy level to remove
  *
@@ -176,36 +1173,492 @@ export function setTitlePart(level: number, title: string) {
  * removeTitlePart(1) // Removes the level 1 title part
  */
 export function removeTitlePart(level: number) {
-	titlePartsMap.delete(level)
-	syncMapToStore()
+	defaultTitleManager.removeTitlePart(level)
 }
 
 /**
- * Type guard to validate TitlePart structure.
+ * Sets titles declared in page data, in route-tree order, replacing earlier ones.
+ * The first title fills `startLevel`, the next one the level after it, and so on.
+ * Title components with the same level take precedence, and automatic levels
+ * skip the data levels. Empty strings reserve a level without a title.
+ * Usually called by the root Title with `fromData`.
+ *
+ * @param titles - Titles from the outermost layout to the page
+ * @param startLevel - Level of the first title (default: 0)
+ *
+ * @example
+ * setTitlePart(0, 'App')
+ * setDataTitles(['Settings', 'Billing'], 1) // "Billing • Settings • App"
  */
-function isValidTitlePart(part: unknown): part is TitlePart {
-	return (
-		typeof part === 'object' &&
-		part !== null &&
-		'level' in part &&
-		'title' in part &&
-		typeof (part as TitlePart).level === 'number' &&
-		typeof (part as TitlePart).title === 'string'
-	)
+export function setDataTitles(titles: string[], startLevel?: number) {
+	defaultTitleManager.setDataTitles(titles, startLevel)
+}
+
+/**
+ * Registers the translator for title parts with a `message`, and for the
+ * `separatorMessage` and `formatMessage` options. Pass a store (such as an
+ * i18n library's `_` store) to re-translate every part at once when the locale
+ * changes, so the title never mixes languages. Usually set by the root Title.
+ *
+ * @param translator - Translate function, store of one, or null to remove it
+ *
+ * @example
+ * setTitleTranslator((message, params) => messages[locale][message])
+ * setTitlePart(1, 'Settings', { message: 'nav.settings' })
+ */
+export function setTitleTranslator(translator: TitleTranslator | Readable<TitleTranslator> | null) {
+	defaultTitleManager.setTitleTranslator(translator)
+}
+
+/**
+ * Sets the sinks the root Title writes the displayed title to, such as a native
+ * window title or a parent frame. Usually set with the `sinks` prop of the root Title.
+ *
+ * @param sinks - The sinks, or null to write to the document title again
+ *
+ * @example
+ * setTitleSinks([postMessageSink(() => window.parent, 'https://shop.example')])
+ */
+export function setTitleSinks(sinks: readonly TitleSink[] | null) {
+	defaultTitleManager.setTitleSinks(sinks)
+}
+
+/**
+ * Translates a message with the registered translator.
+ *
+ * @param message - Message key
+ * @param params - Parameters for the message
+ * @returns The translated text, or undefined when no translator is registered
+ */
+export function translateTitle(message: string, params?: TitleMessageParams): string | undefined {
+	return defaultTitleManager.translateTitle(message, params)
+}
+
+/**
+ * Alternates the title with an attention text, such as a new message notice,
+ * until the tab becomes visible or a timeout passes. The normal title is
+ * restored exactly afterwards. Starting a new flash stops the previous one.
+ *
+ * Does nothing on the server, or when waiting for a tab that is already visible.
+ *
+ * @param text - The attention text to alternate with the title
+ * @param options - `interval` in milliseconds (default 1000) and `until` ('visible' or milliseconds)
+ * @returns A function that stops flashing
+ * @throws {Error} If interval is not a positive number
+ *
+ * @example
+ * flashTitle('New message from Sam')
+ * const stop = flashTitle('Export ready', { interval: 500, until: 10_000 })
+ */
+export function flashTitle(text: string, options?: FlashTitleOptions): () => void {
+	return defaultTitleManager.flashTitle(text, options)
+}
+
+/**
+ * Stops a running `flashTitle` and restores the normal title.
+ *
+ * @example
+ * stopFlashTitle()
+ */
+export function stopFlashTitle() {
+	defaultTitleManager.stopFlashTitle()
+}
+
+/**
+ * Subscribes to title changes, for analytics and similar side effects.
+ *
+ * The listener runs only when the built title (without badge or attention text)
+ * settles on a new, non-empty value. Changes made in the same task, such as a
+ * navigation replacing the page's titles, are reported once. The first call also
+ * reports the title that is already set.
+ *
+ * @param listener - Receives the new title, the previous one and the pathname and timestamp
+ * @returns A function that unsubscribes the listener
+ *
+ * @example
+ * onTitleChange((next, prev, { pathname }) => {
+ *   analytics.track('page_view', { title: next, path: pathname })
+ * })
+ */
+export function onTitleChange(listener: TitleChangeListener): () => void {
+	return defaultTitleManager.onTitleChange(listener)
+}
+
+/**
+ * Returns every registered part, before siblings are combined, with its level,
+ * source component and override status, plus the separator and the level counter.
+ * `<TitleInspector>` shows this in development.
+ *
+ * @returns A snapshot of the title state
+ *
+ * @example
+ * const { parts, counter } = inspectTitle()
+ * console.table(parts)
+ */
+export function inspectTitle(): TitleInspection {
+	return defaultTitleManager.inspectTitle()
+}
+
+/**
+ * Gets the most specific title text from title parts.
+ *
+ * - If an override part exists, returns its title
+ * - Otherwise returns the title of the highest level
+ * - Empty parts array returns empty string
+ *
+ * @param parts - Array of title parts
+ * @returns The most specific title text
+ *
+ * @example
+ * getLeafTitle([{ level: 0, title: 'App' }, { level: 1, title: 'Settings' }]) // "Settings"
+ */
+export function getLeafTitle(parts: TitlePart[]): string {
+	const overridePart = parts.find(p => p.level === OVERRIDE_LEVEL)
+	if (overridePart) {
+		return overridePart.title
+	}
+
+	const leaf = parts
+		.filter(p => p.level >= 0)
+		.reduce<TitlePart | undefined>((deepest, p) => (!deepest || p.level > deepest.level ? p : deepest), undefined)
+	return leaf?.title ?? ''
+}
+
+/**
+ * Combines title parts registered at the same level into one part per level.
+ *
+ * - 'last-wins' keeps the latest registration, 'first-wins' the earliest
+ * - 'join' joins the titles (and `short` texts) with the sibling separator,
+ *   keeping the highest priority and the first href
+ *
+ * Override parts ignore the policy and form a stack: the highest priority wins,
+ * and among equal priorities the latest registration.
+ *
+ * @param parts - Parts in registration order
+ * @param options - Sibling policy and separator
+ * @returns One part per level, in order of each level's first registration
+ *
+ * @example
+ * mergeTitleSiblings([{ level: 1, title: 'Inbox' }, { level: 1, title: 'Drafts' }], { siblings: 'join' })
+ * // [{ level: 1, title: 'Inbox, Drafts' }]
+ */
+export function mergeTitleSiblings(parts: TitlePart[], options: TitleSiblingOptions = {}): TitlePart[] {
+	const { siblings = 'last-wins', siblingSeparator = DEFAULT_SIBLING_SEPARATOR } = options
+	const groups = new Map<number, TitlePart[]>()
+	for (const part of parts) {
+		const group = groups.get(part.level)
+		if (group) {
+			group.push(part)
+		} else {
+			groups.set(part.level, [part])
+		}
+	}
+
+	return Array.from(groups.values(), (group) => {
+		if (group[0].level === OVERRIDE_LEVEL) {
+			return group.reduce((top, part) => ((part.priority ?? 0) >= (top.priority ?? 0) ? part : top))
+		}
+		if (group.length === 1 || siblings === 'first-wins') {
+			return group[0]
+		}
+		if (siblings === 'last-wins') {
+			return group[group.length - 1]
+		}
+
+		const joined: TitlePart = {
+			level: group[0].level,
+			title: group.map(p => p.title).join(siblingSeparator)
+		}
+		if (group.some(p => p.short !== undefined)) {
+			joined.short = group.map(p => p.short ?? p.title).join(siblingSeparator)
+		}
+		const priorities = group.flatMap(p => (p.priority !== undefined ? [p.priority] : []))
+		if (priorities.length > 0) {
+			joined.priority = Math.max(...priorities)
+		}
+		const href = group.find(p => p.href !== undefined)?.href
+		if (href !== undefined) {
+			joined.href = href
+		}
+		return joined
+	})
+}
+
+/**
+ * Builds the breadcrumb trail from title parts.
+ *
+ * - Follows `buildTitle`: an override part stands alone, otherwise all levels are used
+ * - Ordered from root to leaf, the reverse of the title
+ * - Invalid and empty parts are skipped
+ *
+ * @param parts - Array of title parts
+ * @returns Breadcrumbs from root to leaf
+ *
+ * @example
+ * getBreadcrumbs([{ level: 1, title: 'Settings', href: '/settings' }, { level: 0, title: 'App' }])
+ * // [{ level: 0, title: 'App' }, { level: 1, title: 'Settings', href: '/settings' }]
+ */
+export function getBreadcrumbs(parts: TitlePart[]): Breadcrumb[] {
+	const validParts = parts.filter(part => isValidTitlePart(part) && part.title !== '')
+	const overridePart = validParts.find(p => p.level === OVERRIDE_LEVEL)
+	const trailParts = overridePart
+		? [overridePart]
+		: validParts.filter(p => p.level >= 0).sort((a, b) => a.level - b.level)
+
+	return trailParts.map(({ level, title, href }) => (href !== undefined ? { level, title, href } : { level, title }))
+}
+
+/**
+ * Fills in missing breadcrumb links from the current URL path.
+ *
+ * The last breadcrumb links to the path itself; a breadcrumb at level n links to
+ * the first n path segments, so the root links to '/'.
+ *
+ * @param crumbs - Breadcrumbs from root to leaf
+ * @param pathname - The current URL path
+ * @returns Breadcrumbs that all have an href
+ *
+ * @example
+ * resolveBreadcrumbHrefs([{ level: 0, title: 'App' }, { level: 1, title: 'Settings' }], '/settings')
+ * // [{ level: 0, title: 'App', href: '/' }, { level: 1, title: 'Settings', href: '/settings' }]
+ */
+export function resolveBreadcrumbHrefs(crumbs: Breadcrumb[], pathname: string): Required<Breadcrumb>[] {
+	const segments = pathname.split('/').filter(segment => segment !== '')
+	return crumbs.map((crumb, index) => {
+		const isLeaf = index === crumbs.length - 1
+		const href = crumb.href ?? (isLeaf ? pathname : `/${segments.slice(0, crumb.level).join('/')}`)
+		return { ...crumb, href }
+	})
+}
+
+/**
+ * Validates title build options.
+ *
+ * @throws {Error} If a template string does not contain '%s'
+ * @throws {Error} If maxLength is not a positive integer
+ * @throws {Error} If direction or bidi is not a known value
+ * @throws {Error} If normalize names an unknown step
+ */
+function validateOptions(options: BuildTitleOptions) {
+	const { format, maxLength, direction, bidi, normalize } = options
+	if (typeof format === 'string' && !format.includes('%s')) {
+		throw new Error(`Invalid format: "${format}" must contain '%s' for the title.`)
+	}
+	if (maxLength !== undefined && (!Number.isInteger(maxLength) || maxLength < 1)) {
+		throw new Error(`Invalid maxLength: ${maxLength}. Must be a positive integer.`)
+	}
+	if (direction !== undefined && direction !== 'specific-first' && direction !== 'general-first') {
+		throw new Error(`Invalid direction: "${direction}". Use 'specific-first' or 'general-first'.`)
+	}
+	if (bidi !== undefined && bidi !== 'auto' && bidi !== 'isolate' && bidi !== 'none') {
+		throw new Error(`Invalid bidi: "${bidi}". Use 'auto', 'isolate' or 'none'.`)
+	}
+	validateNormalize(normalize)
+}
+
+/**
+ * Validates the sibling options set on the root Title.
+ *
+ * @throws {Error} If siblings is not a known policy
+ * @throws {Error} If siblingSeparator is an empty string
+ */
+function validateSiblingOptions(options: TitleSiblingOptions) {
+	const { siblings, siblingSeparator } = options
+	if (siblings !== undefined && siblings !== 'last-wins' && siblings !== 'first-wins' && siblings !== 'join') {
+		throw new Error(`Invalid siblings: "${siblings}". Use 'last-wins', 'first-wins' or 'join'.`)
+	}
+	if (siblingSeparator === '') {
+		throw new Error('Invalid siblingSeparator: empty string is not allowed.')
+	}
+}
+
+/**
+ * Validates the options set on the root Title, as `setTitleOptions` does.
+ * The Title component calls it for every instance, so misused props fail on render.
+ *
+ * @param options - The root options
+ * @throws {Error} If a build or sibling option is invalid
+ */
+export function validateTitleOptions(options: TitleOptions) {
+	validateOptions(options)
+	validateSiblingOptions(options)
+}
+
+/**
+ * Unicode FIRST STRONG ISOLATE mark, which starts a part with its own direction.
+ */
+const FIRST_STRONG_ISOLATE = '\u2068'
+
+/**
+ * Unicode POP DIRECTIONAL ISOLATE mark, which ends an isolated part.
+ */
+const POP_DIRECTIONAL_ISOLATE = '\u2069'
+
+/**
+ * Matches right-to-left scripts such as Hebrew, Arabic, Syriac and Thaana.
+ */
+const RTL_PATTERN = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFF\u{10800}-\u{10FFF}\u{1E800}-\u{1EFFF}]/u
+
+/**
+ * Matches the bidi isolate marks, which take no space in the title.
+ */
+const ISOLATE_MARKS_PATTERN = /[\u2066-\u2069]/g
+
+/**
+ * Applies a title format to parts ordered most specific first:
+ * puts them in display order, isolates them when needed, then formats.
+ */
+function formatTitle(parts: TitlePart[], separator: string, options: BuildTitleOptions): string {
+	const { format, direction = 'specific-first', bidi = 'auto' } = options
+	const ordered = direction === 'general-first' ? [...parts].reverse() : parts
+	const isolate = bidi === 'isolate' || (bidi === 'auto' && ordered.some(p => RTL_PATTERN.test(p.title)))
+	const displayParts = isolate
+		? ordered.map(p => ({ ...p, title: FIRST_STRONG_ISOLATE + p.title + POP_DIRECTIONAL_ISOLATE }))
+		: ordered
+
+	if (typeof format === 'function') {
+		return format(displayParts, separator)
+	}
+
+	const joined = displayParts.map(p => p.title).join(separator)
+	if (format === undefined) {
+		return joined
+	}
+	return format.replace(/%s/g, () => joined)
+}
+
+/**
+ * Prefixes a title with its badge.
+ * `null`, `0` and `''` badges leave the title unchanged.
+ *
+ * @param title - The built title
+ * @param badge - The count or label to show
+ * @param format - Template (`%s` is the badge) or function for the prefix (default: '(%s) ')
+ * @returns The title with its badge prefix
+ *
+ * @example
+ * formatTitleBadge('Inbox • App', 3) // "(3) Inbox • App"
+ * formatTitleBadge('Inbox • App', 3, '[%s] ') // "[3] Inbox • App"
+ */
+export function formatTitleBadge(
+	title: string,
+	badge: TitleBadgeValue,
+	format: TitleBadgeFormat = DEFAULT_BADGE_FORMAT
+): string {
+	if (badge === null || badge === 0 || badge === '') {
+		return title
+	}
+	const prefix = typeof format === 'function'
+		? format(badge)
+		: format.replace(/%s/g, () => String(badge))
+	return prefix + title
+}
+
+/**
+ * Character appended to titles shortened by `maxLength`.
+ */
+const ELLIPSIS = '…'
+
+/**
+ * Counts characters by code point so emoji and astral characters count once.
+ * Bidi isolate marks are invisible and not counted.
+ */
+function titleLength(text: string): number {
+	return Array.from(text.replace(ISOLATE_MARKS_PATTERN, '')).length
+}
+
+/**
+ * Cuts text to at most `length` characters, ending with an ellipsis.
+ */
+function ellipsize(text: string, length: number): string {
+	const chars = Array.from(text)
+	if (chars.length <= length) {
+		return text
+	}
+	return chars.slice(0, Math.max(0, length - 1)).join('').trimEnd() + ELLIPSIS
+}
+
+/**
+ * Shortens parts (most specific first) until the formatted title fits in maxLength:
+ *
+ * 1. Swap in `short` alternatives, lowest priority first
+ * 2. Drop middle levels, lowest priority first (ties: closest to the root first)
+ * 3. Ellipsize the leaf, keeping the root while the leaf keeps at least one character
+ * 4. As a last resort, ellipsize the formatted leaf
+ */
+function shortenTitle(parts: TitlePart[], separator: string, options: BuildTitleOptions): string {
+	const maxLength = options.maxLength as number
+	const render = (candidate: TitlePart[]) => formatTitle(candidate, separator, options)
+	const fits = (candidate: TitlePart[]) => titleLength(render(candidate)) <= maxLength
+
+	let current = parts.map(part => ({ ...part }))
+	if (fits(current)) {
+		return render(current)
+	}
+
+	// Ties: middle levels (closest to the root first), then the root, then the leaf
+	const last = current.length - 1
+	const rank = (part: TitlePart) => {
+		const index = current.indexOf(part)
+		if (index === 0) return current.length + 1
+		if (index === last) return current.length
+		return last - index
+	}
+	const byPriority = (a: TitlePart, b: TitlePart) =>
+		(a.priority ?? 0) - (b.priority ?? 0) || rank(a) - rank(b)
+
+	for (const part of current.filter(p => p.short !== undefined).sort(byPriority)) {
+		part.title = part.short as string
+		if (fits(current)) {
+			return render(current)
+		}
+	}
+
+	for (const part of current.slice(1, -1).sort(byPriority)) {
+		current = current.filter(p => p !== part)
+		if (fits(current)) {
+			return render(current)
+		}
+	}
+
+	const [leaf] = current
+	const candidates = current.length > 1 ? [current, [leaf]] : [current]
+	for (const candidate of candidates) {
+		for (let length = titleLength(leaf.title) - 1; length >= 2; length--) {
+			const attempt = [{ ...leaf, title: ellipsize(leaf.title, length) }, ...candidate.slice(1)]
+			if (fits(attempt)) {
+				return render(attempt)
+			}
+		}
+	}
+
+	return ellipsize(render([leaf]), maxLength)
 }
 
 /**
  * Builds the final title string from title parts.
  *
  * - If an override part exists, returns only that title
- * - Otherwise, combines parts from highest to lowest level with the separator
+ * - Otherwise, combines parts from highest to lowest level with the separator,
+ *   or from lowest to highest with `direction: 'general-first'`
+ * - Parts are wrapped in bidi isolate marks when any contains right-to-left text
+ *   (`bidi: 'auto'`), so mixed-direction titles keep their order around the separator
+ * - `format` is applied to the result, including override titles
+ * - `maxLength` shortens the result: `short` texts first, then dropping middle
+ *   levels, then ellipsizing the leaf, keeping the root and leaf when possible
  * - Empty parts array returns empty string
  * - Invalid parts are filtered out
+ * - `normalize` cleans up the parts first: strips tags and control characters,
+ *   decodes entities, collapses whitespace, drops empty and repeated parts
  *
  * @param parts - Array of title parts to combine
  * @param separator - The separator string (default: DEFAULT_SEPARATOR)
+ * @param options - Build options such as `format` and `maxLength`
  * @returns The combined title string
  * @throws {Error} If parts is not an array
+ * @throws {Error} If a format template does not contain '%s'
+ * @throws {Error} If maxLength is not a positive integer
+ * @throws {Error} If direction or bidi is not a known value
  *
  * @example
  * const parts = [
@@ -215,31 +1668,38 @@ function isValidTitlePart(part: unknown): part is TitlePart {
  * ]
  * buildTitle(parts) // "Profile • Settings • App"
  * buildTitle(parts, ' → ') // "Profile → Settings → App"
+ * buildTitle(parts, ' • ', { format: '%s — Acme' }) // "Profile • Settings • App — Acme"
+ * buildTitle(parts, ' • ', { maxLength: 15 }) // "Profile • App"
+ * buildTitle(parts, ' • ', { direction: 'general-first' }) // "App • Settings • Profile"
+ * buildTitle([...parts, { level: 3, title: ' Profile ' }], ' • ', { normalize: true }) // "Profile • Settings • App"
  */
-export function buildTitle(parts: TitlePart[], separator: string = DEFAULT_SEPARATOR): string {
+export function buildTitle(
+	parts: TitlePart[],
+	separator: string = DEFAULT_SEPARATOR,
+	options: BuildTitleOptions = {}
+): string {
 	// Validate input
 	if (!Array.isArray(parts)) {
 		throw new Error('buildTitle: parts must be an array')
 	}
+	validateOptions(options)
 
-	// Filter valid parts and warn about invalid ones
-	const validParts = parts.filter((part) => {
-		const valid = isValidTitlePart(part)
-		if (!valid && typeof console !== 'undefined') {
-			console.warn('buildTitle: Ignoring invalid title part:', part)
-		}
-		return valid
-	})
+	// Drop invalid parts with a warning, then run the normalization steps
+	const validParts = normalizeTitleParts(parts, options.normalize ?? false)
 
+	// Override shows standalone, otherwise combine parts in reverse level order (highest to lowest)
 	const overridePart = validParts.find(p => p.level === OVERRIDE_LEVEL)
-	if (overridePart) {
-		return overridePart.title
-	}
+	const displayParts = overridePart
+		? [overridePart]
+		: validParts.filter(p => p.level >= 0).sort((a, b) => b.level - a.level)
 
-	// Combine parts in reverse level order (highest to lowest)
-	const normalParts = validParts.filter(p => p.level >= 0)
-	const sortedParts = normalParts.sort((a, b) => b.level - a.level)
-	const titles = sortedParts.map(p => p.title)
+	if (displayParts.length === 0) {
+		return ''
+	}
+	if (options.maxLength !== undefined) {
+		return shortenTitle(displayParts, separator, options)
+	}
 
-	return titles.join(separator)
-} 
\ No newline at end of file
+	return formatTitle(displayParts, separator, options)
+}
+ 
\ No newline at end of file
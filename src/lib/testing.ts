@@ -0,0 +1,307 @@
+import { flushSync, mount, tick, unmount, type Component } from 'svelte'
+import { render } from 'svelte/server'
+import { get } from 'svelte/store'
+import { expect, test } from 'vitest'
+import { page } from '$app/state'
+import { resetTitleDiagnostics } from './diagnostics.js'
+import { transformHead, type TitleHandleOptions } from './hooks/title.js'
+import { requestTitleMarkers } from './hooks/markers.js'
+import { defaultTitleManager, type TitleManager } from './stores/title.js'
+
+/**
+ * The route a component is rendered for, as read from `$app/state`.
+ */
+export interface TitleTestRoute {
+	/** Page URL; relative URLs resolve against http://localhost (default: '/') */
+	url?: string | URL
+	/** Page data, such as the `titles` read by `<Title fromData>` */
+	data?: Record<string, unknown>
+	/** Route parameters */
+	params?: Record<string, string>
+	/** Route id, such as '/settings/[section]' */
+	id?: string | null
+}
+
+/**
+ * Options for `renderWithTitles`.
+ */
+export interface RenderWithTitlesOptions<Props extends Record<string, unknown>> {
+	/** Props passed to the component */
+	props?: Props
+	/** The route to render for; a string is the URL */
+	route?: string | TitleTestRoute
+	/** Handle options applied to the SSR head, or false for the raw head of an app without the handle (default: {}) */
+	handle?: TitleHandleOptions | false
+}
+
+/**
+ * Result of `renderWithTitles`.
+ */
+export interface RenderedTitles {
+	/** The title of the rendered page */
+	title: string
+	/** The head HTML: the SSR head, or `document.head` in the browser */
+	head: string
+	/** The HTML the component rendered */
+	body: string
+	/** Removes the component; `resetTitles` does this for every rendered component */
+	unmount(): void
+}
+
+const ORIGIN = 'http://localhost'
+
+const HEAD_TITLE_PATTERN = /<title\b[^>]*>([\s\S]*?)<\/title>/gi
+
+/**
+ * Components mounted in the browser, removed by `resetTitles`.
+ */
+const mounted = new Set<() => void>()
+
+/**
+ * Title of the last SSR render, since SSR titles unregister once rendering ends.
+ */
+let renderedTitle: string | undefined
+
+function toRoute(route: string | TitleTestRoute = {}): Required<TitleTestRoute> & { url: URL } {
+	const { url = '/', data = {}, params = {}, id = null } = typeof route === 'string' ? { url: route } : route
+	return { url: new URL(url, ORIGIN), data, params, id }
+}
+
+function readHeadTitle(head: string): string {
+	const titles = Array.from(head.matchAll(HEAD_TITLE_PATTERN), ([, title]) => title)
+	return (titles.at(-1) ?? '').replace(/&lt;/g, '<').replace(/&amp;/g, '&')
+}
+
+/**
+ * Writes the route into the `page` of a mocked `$app/state`.
+ * SvelteKit's own `page` is read-only, so that only works with a mock.
+ *
+ * @throws {Error} If a route is given but `$app/state` isn't mocked
+ */
+function providePage(route: string | TitleTestRoute | undefined) {
+	const { url, data, params, id } = toRoute(route)
+	try {
+		Object.assign(page, { url, data, params, route: { id }, status: 200, error: null, form: undefined, state: {} })
+	} catch {
+		// Components that don't read the page render fine without the mock
+		if (route !== undefined) {
+			throw new Error(`renderWithTitles needs a mocked $app/state to apply the route. Add vi.mock('$app/state', () => ({ page: {} })) to the test file.`)
+		}
+	}
+}
+
+/**
+ * Renders on the server like SvelteKit does, with the route in the mocked `$app/state`.
+ */
+function renderOnServer(component: Component<Record<string, unknown>>, props: Record<string, unknown>, options: RenderWithTitlesOptions<Record<string, unknown>>): RenderedTitles {
+	providePage(options.route)
+
+	const { handle = {} } = options
+
+	// Every SSR request starts without titles; the handle asks for markers before rendering
+	defaultTitleManager.clearTitleState()
+	requestTitleMarkers(handle !== false)
+	const result = render(component, { props })
+
+	const head = handle === false ? result.head : transformHead(`${result.head}</head>`, handle).slice(0, -'</head>'.length)
+	renderedTitle = readHeadTitle(head)
+	return { title: renderedTitle, head, body: result.body, unmount() {} }
+}
+
+async function renderInBrowser(component: Component<Record<string, unknown>>, props: Record<string, unknown>, options: RenderWithTitlesOptions<Record<string, unknown>>): Promise<RenderedTitles> {
+	// The client `$app/state` follows the router, so only the URL can be applied here
+	if (options.route !== undefined) {
+		const { url } = toRoute(options.route)
+		history.replaceState(history.state, '', url.pathname + url.search + url.hash)
+	}
+
+	const target = document.body.appendChild(document.createElement('div'))
+	const instance = mount(component, { target, props })
+	const remove = () => {
+		if (mounted.delete(remove)) {
+			unmount(instance)
+			target.remove()
+		}
+	}
+	mounted.add(remove)
+
+	flushSync()
+	await flushTitles()
+	return {
+		get title() {
+			return document.title
+		},
+		get head() {
+			return document.head.innerHTML
+		},
+		get body() {
+			return target.innerHTML
+		},
+		unmount: remove
+	}
+}
+
+/**
+ * Renders a component the way a page renders, and returns its title.
+ *
+ * On the server (`svelte/server`), the component is rendered like a SvelteKit
+ * request: the route is written into `$app/state`, which the test file must mock
+ * (`vi.mock('$app/state', () => ({ page: {} }))`), and the head runs through the
+ * same transform as `titleHandle`, so `title` is the title users get. In the
+ * browser (`vitest-browser-svelte`), the component is mounted into the document
+ * and the promise resolves once `document.title` is up to date; mock `$app/state`
+ * there to provide page data.
+ *
+ * @param component - The component to render, usually a fixture nesting layouts and pages
+ * @param options - Props, route and handle options
+ * @returns The title, head and body HTML
+ * @throws {Error} On the server, if a route is given but `$app/state` isn't mocked
+ *
+ * @example
+ * const { title } = await renderWithTitles(BillingPage, { route: '/settings/billing' })
+ * expect(title).toBe('Billing • Settings • App')
+ */
+export async function renderWithTitles<Props extends Record<string, unknown>>(
+	component: Component<Props>,
+	options: RenderWithTitlesOptions<Props> = {}
+): Promise<RenderedTitles> {
+	const { props = {} } = options
+	const anyComponent = component as Component<Record<string, unknown>>
+	if (typeof document === 'undefined') {
+		return renderOnServer(anyComponent, props, options)
+	}
+	return renderInBrowser(anyComponent, props, options)
+}
+
+/**
+ * Waits until title changes made so far have reached `document.title`.
+ * Call it after changing props or state in browser tests.
+ *
+ * @example
+ * pageTitle = 'Invoices'
+ * await flushTitles()
+ * expectTitle('Invoices • App')
+ */
+export async function flushTitles() {
+	await tick()
+	// Title changes commit in a microtask, after effects have run
+	await new Promise(resolve => setTimeout(resolve, 0))
+}
+
+/**
+ * Gets the title of the page right now.
+ *
+ * In the browser this is `document.title`; on the server, the title of the
+ * last `renderWithTitles`, or the default manager's title before any render.
+ *
+ * @param manager - Read this manager's current title instead
+ * @returns The current title
+ */
+export function getCurrentTitle(manager?: TitleManager): string {
+	if (manager) {
+		return get(manager.currentTitle)
+	}
+	if (typeof document !== 'undefined') {
+		return document.title
+	}
+	return renderedTitle ?? get(defaultTitleManager.currentTitle)
+}
+
+/**
+ * Asserts the current title equals a string or matches a pattern.
+ *
+ * @param expected - The exact title, or a pattern it must match
+ * @param manager - Check this manager's title instead of the page title
+ *
+ * @example
+ * await renderWithTitles(SettingsPage)
+ * expectTitle('Settings • App')
+ * expectTitle(/^Settings/)
+ */
+export function expectTitle(expected: string | RegExp, manager?: TitleManager) {
+	const title = getCurrentTitle(manager)
+	if (typeof expected === 'string') {
+		expect(title, 'title').toBe(expected)
+	} else {
+		expect(title, 'title').toMatch(expected)
+	}
+}
+
+/**
+ * Removes every component rendered by `renderWithTitles` and clears the
+ * default manager, so each test starts without titles. Warnings printed
+ * by earlier tests are printed again.
+ */
+export function resetTitles() {
+	for (const remove of mounted) {
+		remove()
+	}
+	renderedTitle = undefined
+	defaultTitleManager.clearTitleState()
+	resetTitleDiagnostics()
+	if (typeof document !== 'undefined') {
+		document.title = ''
+	}
+}
+
+/**
+ * Vitest matchers; register them with `expect.extend(titleMatchers)`.
+ *
+ * - `toHaveTitle(expected)` - a render result or manager has the given title, or one matching a pattern
+ *
+ * @example
+ * // vitest.setup.ts
+ * expect.extend(titleMatchers)
+ *
+ * // In a test
+ * expect(await renderWithTitles(Page)).toHaveTitle('Page • App')
+ * expect(manager).toHaveTitle(/App$/)
+ */
+export const titleMatchers: Parameters<typeof expect.extend>[0] = {
+	toHaveTitle(received: RenderedTitles | TitleManager, expected: string | RegExp) {
+		const title = 'currentTitle' in received ? get(received.currentTitle) : received.title
+		const pass = typeof expected === 'string' ? title === expected : expected.test(title)
+		return {
+			pass,
+			message: () => `expected title ${this.utils.printReceived(title)} ${this.isNot ? 'not ' : ''}to ${typeof expected === 'string' ? 'be' : 'match'} ${this.utils.printExpected(expected)}`,
+			actual: title,
+			expected
+		}
+	}
+}
+
+interface TitleMatchers<R = unknown> {
+	toHaveTitle(expected: string | RegExp): R
+}
+
+declare module 'vitest' {
+	// eslint-disable-next-line @typescript-eslint/no-empty-object-type, @typescript-eslint/no-explicit-any
+	interface Assertion<T = any> extends TitleMatchers<T> {}
+	// eslint-disable-next-line @typescript-eslint/no-empty-object-type
+	interface AsymmetricMatchersContaining extends TitleMatchers {}
+}
+
+/**
+ * Vitest `test` with an automatic fixture that calls `resetTitles` before
+ * and after every test, and provides the default manager as `titles`.
+ *
+ * @example
+ * import { titleTest as test } from 'svelte-title/testing'
+ *
+ * test('shows the invoice number', async ({ titles }) => {
+ *   await renderWithTitles(InvoicePage, { route: '/invoices/4821' })
+ *   expectTitle('Invoice #4821 • App')
+ *   expect(get(titles.breadcrumbs)).toHaveLength(2)
+ * })
+ */
+export const titleTest = test.extend<{ titles: TitleManager }>({
+	titles: [
+		// eslint-disable-next-line no-empty-pattern -- vitest reads fixture dependencies from the pattern
+		async ({}, use) => {
+			resetTitles()
+			await use(defaultTitleManager)
+			resetTitles()
+		},
+		{ auto: true }
+	]
+})
@@ -0,0 +1,253 @@
+import { mkdir, readdir, readFile, writeFile } from 'node:fs/promises'
+import { dirname, join, relative, resolve, sep } from 'node:path'
+import type { Plugin, ResolvedConfig } from 'vite'
+import { MANIFEST_ENV, MARKER_PATTERN, readTitleMarkers } from './markers.js'
+
+/**
+ * A problem with a route's title:
+ * - 'empty' - the page has no title
+ * - 'duplicate' - another route has the same title
+ * - 'too-long' - the title is longer than `maxLength`
+ */
+export type TitleManifestIssue = 'empty' | 'duplicate' | 'too-long'
+
+/**
+ * A title part rendered on a prerendered page.
+ */
+export interface TitleManifestPart {
+	/** The hierarchy level, or -1 for an override */
+	level: number
+	/** The title text */
+	title: string
+	/** Whether the part comes from page data */
+	data?: boolean
+}
+
+/**
+ * The title of a prerendered route.
+ */
+export interface TitleManifestRoute {
+	/** Path of the page, such as '/settings/billing' */
+	path: string
+	/** The title of the prerendered page */
+	title: string
+	/** Every title part rendered on the page, sorted by level */
+	parts: TitleManifestPart[]
+	/** Problems found with the title */
+	issues: TitleManifestIssue[]
+}
+
+/**
+ * Contents of `title-manifest.json`.
+ */
+export interface TitleManifest {
+	/** Prerendered routes, sorted by path */
+	routes: TitleManifestRoute[]
+}
+
+/**
+ * Options for `titleManifest` and `createTitleManifest`.
+ */
+export interface TitleManifestOptions {
+	/** Titles longer than this many characters are flagged as 'too-long' (default: 60) */
+	maxLength?: number
+}
+
+/**
+ * Options for the `titleManifest` plugin.
+ */
+export interface TitleManifestPluginOptions extends TitleManifestOptions {
+	/** Path of the written manifest, relative to the project root (default: 'title-manifest.json') */
+	file?: string
+	/** SvelteKit's output directory, `kit.outDir` in svelte.config.js (default: '.svelte-kit') */
+	outDir?: string
+	/** Fail the build when any route has an issue, instead of only warning (default: false) */
+	strict?: boolean
+}
+
+/**
+ * Default length above which titles are flagged; longer titles get cut off in search results.
+ */
+export const DEFAULT_MANIFEST_MAX_LENGTH = 60
+
+const HEAD_TITLE_PATTERN = /<title\b[^>]*>([\s\S]*?)<\/title>/gi
+
+const ISOLATE_MARKS_PATTERN = /[\u2068\u2069]/g
+
+const HTML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'", '#x27': "'" }
+
+function decodeHtml(text: string): string {
+	return text.replace(/&(amp|lt|gt|quot|#39|#x27);/gi, (_, name: string) => HTML_ENTITIES[name.toLowerCase()])
+}
+
+/**
+ * Turns the path of a prerendered page file into its route path.
+ */
+function toRoutePath(file: string): string {
+	const path = file.split(sep).join('/').replace(/\.html$/, '')
+	if (path === 'index') {
+		return '/'
+	}
+	return path.endsWith('/index') ? `/${path.slice(0, -'index'.length)}` : `/${path}`
+}
+
+/**
+ * Reads the title and title parts of a prerendered page.
+ * The last `<title>` wins, like during SSR.
+ */
+function readPageTitle(html: string): Pick<TitleManifestRoute, 'title' | 'parts'> {
+	const headEnd = html.indexOf('</head>')
+	const head = headEnd === -1 ? html : html.slice(0, headEnd)
+	const titles = Array.from(head.matchAll(HEAD_TITLE_PATTERN), ([, title]) => decodeHtml(title).trim())
+	const parts = readTitleMarkers(head)
+		.map(({ level, title, data }): TitleManifestPart => (data ? { level, title, data } : { level, title }))
+		.sort((a, b) => a.level - b.level)
+	return { title: titles.at(-1) ?? '', parts }
+}
+
+async function findPages(pagesDir: string): Promise<string[]> {
+	try {
+		const files = await readdir(pagesDir, { recursive: true })
+		return files.filter(file => file.endsWith('.html')).sort()
+	} catch {
+		// Nothing was prerendered
+		return []
+	}
+}
+
+/**
+ * Builds the title manifest from the prerendered pages in a directory.
+ *
+ * @param pagesDir - Directory with the prerendered HTML pages
+ * @param options - `maxLength` above which titles are flagged
+ * @returns The routes with their titles, parts and issues
+ * @throws {Error} If maxLength is not a positive integer
+ *
+ * @example
+ * const manifest = await createTitleManifest('.svelte-kit/output/prerendered/pages')
+ * manifest.routes.filter(route => route.issues.length > 0)
+ */
+export async function createTitleManifest(pagesDir: string, options: TitleManifestOptions = {}): Promise<TitleManifest> {
+	const { maxLength = DEFAULT_MANIFEST_MAX_LENGTH } = options
+	if (!Number.isInteger(maxLength) || maxLength < 1) {
+		throw new Error(`Invalid maxLength: ${maxLength}. Must be a positive integer.`)
+	}
+
+	const routes: TitleManifestRoute[] = []
+	for (const file of await findPages(pagesDir)) {
+		const html = await readFile(join(pagesDir, file), 'utf8')
+		routes.push({ path: toRoutePath(file), ...readPageTitle(html), issues: [] })
+	}
+
+	const titleCounts = new Map<string, number>()
+	for (const route of routes) {
+		titleCounts.set(route.title, (titleCounts.get(route.title) ?? 0) + 1)
+	}
+	for (const route of routes) {
+		if (route.title === '') {
+			route.issues.push('empty')
+			continue
+		}
+		if ((titleCounts.get(route.title) ?? 0) > 1) {
+			route.issues.push('duplicate')
+		}
+		if (Array.from(route.title.replace(ISOLATE_MARKS_PATTERN, '')).length > maxLength) {
+			route.issues.push('too-long')
+		}
+	}
+
+	return { routes: routes.sort((a, b) => a.path.localeCompare(b.path)) }
+}
+
+/**
+ * Removes the title markers the handle kept for the manifest from the prerendered pages.
+ */
+async function stripMarkers(pagesDir: string) {
+	for (const file of await findPages(pagesDir)) {
+		const path = join(pagesDir, file)
+		const html = await readFile(path, 'utf8')
+		const stripped = html.replace(MARKER_PATTERN, '')
+		if (stripped !== html) {
+			await writeFile(path, stripped)
+		}
+	}
+}
+
+function describeIssue(route: TitleManifestRoute, issue: TitleManifestIssue, maxLength: number): string {
+	switch (issue) {
+	case 'empty':
+		return `${route.path} has no title`
+	case 'duplicate':
+		return `${route.path} shares its title "${route.title}" with another route`
+	case 'too-long':
+		return `${route.path} has a title over ${maxLength} characters: "${route.title}"`
+	}
+}
+
+/**
+ * Vite plugin that writes the title of every prerendered route to `title-manifest.json`,
+ * for sitemaps, search indexes and QA reviews.
+ *
+ * Runs after SvelteKit has prerendered the pages in `vite build`, and warns about
+ * routes with empty, duplicate or overly long titles. With `titleHandle`, the title
+ * is exactly the one it wrote; the handle keeps its markers while building so the
+ * plugin can read each route's parts, and the plugin removes them afterwards.
+ *
+ * @param options - Manifest file, `maxLength`, SvelteKit `outDir` and `strict` mode
+ * @returns The Vite plugin
+ *
+ * @example
+ * // vite.config.ts
+ * import { sveltekit } from '@sveltejs/kit/vite'
+ * import { titleManifest } from 'svelte-title/vite'
+ *
+ * export default defineConfig({
+ *   plugins: [sveltekit(), titleManifest({ maxLength: 55 })]
+ * })
+ */
+export function titleManifest(options: TitleManifestPluginOptions = {}): Plugin {
+	const { file = 'title-manifest.json', outDir = '.svelte-kit', strict = false, ...manifestOptions } = options
+	const { maxLength = DEFAULT_MANIFEST_MAX_LENGTH } = manifestOptions
+	let config: ResolvedConfig
+
+	return {
+		name: 'svelte-title:manifest',
+		apply: 'build',
+
+		config() {
+			// Inherited by SvelteKit's prerender process, where the handle reads it
+			process.env[MANIFEST_ENV] = '1'
+		},
+
+		configResolved(resolvedConfig) {
+			config = resolvedConfig
+		},
+
+		closeBundle: {
+			// Before adapters copy the prerendered pages, so they get the cleaned-up files
+			order: 'pre',
+			sequential: true,
+			async handler() {
+				// Prerendering happens at the end of the server build
+				if (!config.build.ssr) return
+
+				const pagesDir = resolve(config.root, outDir, 'output/prerendered/pages')
+				const manifest = await createTitleManifest(pagesDir, manifestOptions)
+				await stripMarkers(pagesDir)
+
+				const manifestPath = resolve(config.root, file)
+				await mkdir(dirname(manifestPath), { recursive: true })
+				await writeFile(manifestPath, `${JSON.stringify(manifest, null, '\t')}\n`)
+				config.logger.info(`Wrote titles of ${manifest.routes.length} routes to ${relative(config.root, manifestPath)}`)
+
+				const problems = manifest.routes.flatMap(route => route.issues.map(issue => describeIssue(route, issue, maxLength)))
+				for (const problem of problems) {
+					config.logger.warn(`[svelte-title] ${problem}`)
+				}
+				if (strict && problems.length > 0) {
+					throw new Error(`[svelte-title] ${problems.length} route title issue(s) found`)
+				}
+			}
+		}
+	}
+}
@@ -0,0 +1,49 @@
+import { describe, expect, it, afterEach, vi } from 'vitest'
+import { syncAppBadge } from '../src/lib/badge.js'
+
+describe('syncAppBadge', () => {
+	afterEach(() => {
+		vi.unstubAllGlobals()
+	})
+
+	function stubBadgingApi() {
+		const api = {
+			setAppBadge: vi.fn(async () => {}),
+			clearAppBadge: vi.fn(async () => {})
+		}
+		vi.stubGlobal('navigator', api)
+		return api
+	}
+
+	it('should set a numeric app badge for counts', async () => {
+		const api = stubBadgingApi()
+		await syncAppBadge(3)
+		expect(api.setAppBadge).toHaveBeenCalledWith(3)
+	})
+
+	it('should set a plain app badge for labels', async () => {
+		const api = stubBadgingApi()
+		await syncAppBadge('new')
+		expect(api.setAppBadge).toHaveBeenCalledWith()
+	})
+
+	it('should clear the app badge for empty badges', async () => {
+		const api = stubBadgingApi()
+		await syncAppBadge(null)
+		await syncAppBadge(0)
+		expect(api.clearAppBadge).toHaveBeenCalledTimes(2)
+		expect(api.setAppBadge).not.toHaveBeenCalled()
+	})
+
+	it('should do nothing when the Badging API is missing', async () => {
+		vi.stubGlobal('navigator', {})
+		await expect(syncAppBadge(3)).resolves.toBeUndefined()
+	})
+
+	it('should ignore Badging API errors', async () => {
+		vi.stubGlobal('navigator', {
+			setAppBadge: vi.fn(async () => { throw new Error('Not installed') })
+		})
+		await expect(syncAppBadge(3)).resolves.toBeUndefined()
+	})
+})
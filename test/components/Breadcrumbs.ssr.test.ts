@@ -0,0 +1,36 @@
+import { describe, expect, it, vi } from 'vitest'
+import { render } from 'svelte/server'
+import TitlesWithBreadcrumbs from '../fixtures/TitlesWithBreadcrumbs.svelte'
+
+vi.mock('$app/state', () => ({
+	page: { data: {}, url: new URL('http://localhost/settings/billing') }
+}))
+
+describe('Breadcrumbs Component SSR', () => {
+	it('should render the title hierarchy from root to leaf', () => {
+		const { body } = render(TitlesWithBreadcrumbs)
+
+		expect(body).toContain('<nav aria-label="Breadcrumb">')
+		expect(body).toMatch(/<a href="\/">App<\/a>.*<a href="\/settings\/general">Settings<\/a>.*<a href="\/settings\/billing" aria-current="page">Billing<\/a>/s)
+	})
+
+	it('should only render the override title in override mode', () => {
+		const { body } = render(TitlesWithBreadcrumbs, { props: { page: 'Not Found', override: true } })
+
+		expect(body).toContain('aria-current="page">Not Found</a>')
+		expect(body).not.toContain('>App</a>')
+	})
+
+	it('should skip empty titles', () => {
+		const { body } = render(TitlesWithBreadcrumbs, { props: { page: '' } })
+
+		expect(body).toContain('aria-current="page">Settings</a>')
+		expect(body).not.toContain('Billing')
+	})
+
+	it('should accept a custom label', () => {
+		const { body } = render(TitlesWithBreadcrumbs, { props: { label: 'You are here' } })
+
+		expect(body).toContain('<nav aria-label="You are here">')
+	})
+})
@@ -0,0 +1,34 @@
+import { describe, expect, it, vi } from 'vitest'
+import { render } from 'vitest-browser-svelte'
+import { tick } from 'svelte'
+import TitlesWithBreadcrumbs from '../fixtures/TitlesWithBreadcrumbs.svelte'
+
+vi.mock('$app/state', () => ({
+	page: { data: {}, url: new URL('http://localhost/settings/billing') }
+}))
+
+describe('Breadcrumbs Component', () => {
+	it('should render links for the title hierarchy', async () => {
+		const component = render(TitlesWithBreadcrumbs)
+		await tick()
+
+		const links = Array.from(document.querySelectorAll('nav[aria-label="Breadcrumb"] a'))
+		expect(links.map(link => link.textContent)).toEqual(['App', 'Settings', 'Billing'])
+		expect(links.map(link => link.getAttribute('href'))).toEqual(['/', '/settings/general', '/settings/billing'])
+		expect(links[2].getAttribute('aria-current')).toBe('page')
+
+		component.unmount?.()
+	})
+
+	it('should update when a title changes', async () => {
+		const component = render(TitlesWithBreadcrumbs)
+		await tick()
+
+		await component.rerender({ page: 'Invoices' })
+		await tick()
+
+		expect(document.querySelector('[aria-current="page"]')?.textContent).toBe('Invoices')
+
+		component.unmount?.()
+	})
+})
@@ -1,7 +1,19 @@
-import { describe, expect, it, beforeEach } from 'vitest'
+import { describe, expect, it, beforeEach, vi } from 'vitest'
 import { render } from 'svelte/server'
+import { page } from '$app/state'
 import Title from '../../src/lib/components/Title.svelte'
-import { titleParts, titleSeparator, resetLevelCounter, DEFAULT_SEPARATOR } from '../../src/lib/stores/title.js'
+import ProvidedTitles from '../fixtures/ProvidedTitles.svelte'
+import NestedTitles from '../fixtures/NestedTitles.svelte'
+import SiblingTitles from '../fixtures/SiblingTitles.svelte'
+import RenderOrderTitles from '../fixtures/RenderOrderTitles.svelte'
+import { titleParts, titleSeparator, resetLevelCounter, getNextLevel, createTitleManager, DEFAULT_SEPARATOR } from '../../src/lib/stores/title.js'
+import { resetTitleDiagnostics, setTitleDiagnostics } from '../../src/lib/diagnostics.js'
+import { customSink } from '../../src/lib/sinks.js'
+import { requestTitleMarkers } from '../../src/lib/hooks/markers.js'
+
+vi.mock('$app/state', () => ({
+	page: { data: {} }
+}))
 
 describe('Title Component SSR', () => {
 	beforeEach(() => {
@@ -9,6 +21,8 @@ describe('Title Component SSR', () => {
 		titleParts.set([])
 		titleSeparator.set(DEFAULT_SEPARATOR)
 		resetLevelCounter()
+		resetTitleDiagnostics()
+		page.data = {}
 	})
 
 	it('should render meaningful title during SSR (not undefined or empty)', () => {
@@ -61,6 +75,16 @@ describe('Title Component SSR', () => {
 		expect(result.head).toContain('<title>My App</title>')
 	})
 
+	it('should emit title markers only once a handle asked for them', () => {
+		expect(render(Title, { props: { title: 'My App', level: 0 } }).head).not.toContain('svelte-title:')
+
+		requestTitleMarkers()
+		const result = render(Title, { props: { title: 'My App', level: 0 } })
+		requestTitleMarkers(false)
+
+		expect(result.head).toContain('<!--svelte-title:')
+	})
+
 	it('should handle override mode during SSR', () => {
 		const result = render(Title, {
 			props: {
@@ -194,4 +218,172 @@ describe('Title Component SSR', () => {
 		titleSeparator.subscribe(sep => currentSeparator = sep)()
 		expect(currentSeparator).toBe(DEFAULT_SEPARATOR) // Should be default, not ' 🔸 '
 	})
-})
\ No newline at end of file
+
+	it('should apply the root format during SSR', () => {
+		const result = render(Title, {
+			props: {
+				title: 'My App',
+				level: 0,
+				format: '[STAGING] %s'
+			}
+		})
+
+		expect(result.head).toContain('<title>[STAGING] My App</title>')
+	})
+
+	it('should apply the root bidi option during SSR', () => {
+		const result = render(Title, { props: { title: 'App', level: 0, bidi: 'isolate' } })
+
+		expect(result.head).toContain('<title>\u2068App\u2069</title>')
+	})
+
+	it('should throw for an unknown direction', () => {
+		expect(() => render(Title, {
+			props: {
+				title: 'My App',
+				level: 0,
+				// @ts-expect-error - testing invalid input
+				direction: 'rtl'
+			}
+		})).toThrow('Invalid direction')
+	})
+
+	it('should throw for a format template without %s', () => {
+		expect(() => render(Title, {
+			props: {
+				title: 'My App',
+				level: 0,
+				format: 'Acme'
+			}
+		})).toThrow('Invalid format')
+	})
+
+	it('should throw for invalid bidi and sibling options on any Title', () => {
+		// @ts-expect-error - testing invalid input
+		expect(() => render(Title, { props: { title: 'Page', level: 1, bidi: 'rtl' } })).toThrow('Invalid bidi')
+		// @ts-expect-error - testing invalid input
+		expect(() => render(Title, { props: { title: 'My App', level: 0, siblings: 'all' } })).toThrow('Invalid siblings')
+		expect(() => render(Title, { props: { title: 'My App', level: 0, siblingSeparator: '' } })).toThrow('Invalid siblingSeparator')
+	})
+
+	it('should register titles with the manager from TitleProvider', () => {
+		const manager = createTitleManager()
+
+		const result = render(ProvidedTitles, { props: { manager } })
+
+		expect(result.head).toContain('<title>Scoped Page • Scoped App</title>')
+		// Both titles took levels from the provided manager, not the default one
+		expect(manager.getNextLevel()).toBe(2)
+		expect(getNextLevel()).toBe(0)
+	})
+
+	it('should build levels from page data titles with fromData', () => {
+		page.data = { titles: ['Settings', 'Billing'] }
+
+		const result = render(Title, { props: { title: 'App', fromData: true } })
+
+		expect(result.head).toContain('<title>Billing • Settings • App</title>')
+	})
+
+	it('should read a custom page data field', () => {
+		page.data = { crumbs: ['Settings'], titles: ['Ignored'] }
+
+		const result = render(Title, { props: { title: 'App', fromData: 'crumbs' } })
+
+		expect(result.head).toContain('<title>Settings • App</title>')
+	})
+
+	it('should reserve levels for streamed titles during SSR', () => {
+		page.data = { titles: ['Settings', new Promise<string>(() => {})] }
+
+		const layout = render(Title, { props: { title: 'App', fromData: true } })
+
+		expect(layout.head).toContain('<title>Settings • App</title>')
+	})
+
+	it('should ignore page data without fromData', () => {
+		page.data = { titles: ['Settings'] }
+
+		const result = render(Title, { props: { title: 'App', level: 0 } })
+
+		expect(result.head).toContain('<title>App</title>')
+	})
+
+	it('should take levels from nesting instead of render order', () => {
+		const manager = createTitleManager()
+		const levels: number[][] = []
+		manager.titleParts.subscribe(parts => levels.push(parts.map(part => part.level)))
+
+		const result = render(NestedTitles, { props: { manager } })
+
+		expect(result.head).toContain('<title>Billing • Settings • App</title>')
+		expect(levels).toContainEqual([0, 1, 2])
+	})
+
+	it('should combine sibling titles in one file with the root policy', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+		expect(render(SiblingTitles, { props: { siblings: 'join' } }).head).toContain('<title>Inbox, Drafts • Mail</title>')
+		expect(render(SiblingTitles, { props: { siblings: 'first-wins' } }).head).toContain('<title>Inbox • Mail</title>')
+		expect(warn).not.toHaveBeenCalled()
+
+		expect(render(SiblingTitles).head).toContain('<title>Drafts • Mail</title>')
+		expect(warn).toHaveBeenCalledOnce()
+		warn.mockRestore()
+	})
+
+	it('should warn about root-only props on nested titles', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+		render(Title, { props: { title: 'Settings', level: 1, separator: ' | ', maxLength: 40 } })
+
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining(
+			'svelte-title(root_option_ignored): <Title title="Settings"> at level 1 sets separator, maxLength, which only the root Title (level 0) reads.'
+		))
+		warn.mockRestore()
+	})
+
+	it('should warn about several render-order titles in one component', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+		render(RenderOrderTitles)
+
+		expect(warn).toHaveBeenCalledOnce()
+		expect(warn).toHaveBeenCalledWith(expect.stringMatching(/^svelte-title\(multiple_titles_in_component\): \S*\/test\/fixtures\/RenderOrderTitles\.svelte renders 2 <Title> components/))
+		warn.mockRestore()
+	})
+
+	it('should not count the root among render-order titles', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+		render(ProvidedTitles)
+
+		expect(warn).not.toHaveBeenCalled()
+		warn.mockRestore()
+	})
+
+	it('should not warn about nested titles in one component', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+		render(NestedTitles)
+
+		expect(warn).not.toHaveBeenCalled()
+		warn.mockRestore()
+	})
+
+	it('should throw for misconfigurations in strict mode', () => {
+		setTitleDiagnostics({ strict: true })
+
+		expect(() => render(Title, { props: { title: 'Settings', level: 1, separator: ' | ' } })).toThrow('root_option_ignored')
+		setTitleDiagnostics()
+	})
+
+	it('should render the title but not write to other sinks during SSR', () => {
+		const write = vi.fn()
+
+		const result = render(Title, { props: { title: 'Widget', level: 0, sinks: [customSink(write)] } })
+
+		expect(result.head).toContain('<title>Widget</title>')
+		expect(write).not.toHaveBeenCalled()
+	})
+})
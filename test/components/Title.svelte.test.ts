@@ -1,7 +1,19 @@
-import { describe, expect, it, beforeEach, afterEach } from 'vitest'
+import { describe, expect, it, beforeEach, afterEach, vi } from 'vitest'
 import { render } from 'vitest-browser-svelte'
+import { get, writable } from 'svelte/store'
 import Title from '../../src/lib/components/Title.svelte'
-import { titleParts, titleSeparator, resetLevelCounter, DEFAULT_SEPARATOR } from '../../src/lib/stores/title.js'
+import ProvidedTitles from '../fixtures/ProvidedTitles.svelte'
+import NestedTitles from '../fixtures/NestedTitles.svelte'
+import SiblingTitles from '../fixtures/SiblingTitles.svelte'
+import RenderOrderLayout from '../fixtures/RenderOrderLayout.svelte'
+import { page } from '../fixtures/page.svelte.js'
+import { titleParts, titleSeparator, titleOptions, resetLevelCounter, createTitleManager, DEFAULT_SEPARATOR } from '../../src/lib/stores/title.js'
+import { resetTitleDiagnostics, setTitleDiagnostics } from '../../src/lib/diagnostics.js'
+import { customSink, documentTitleSink } from '../../src/lib/sinks.js'
+
+vi.mock('$app/state', async () => ({
+	page: (await import('../fixtures/page.svelte.js')).page
+}))
 
 async function waitForTitle(expectedTitle: string, timeout = 1000) {
 	const startTime = Date.now()
@@ -418,4 +430,305 @@ describe('Title Component', () => {
 			section.unmount?.()
 		})
 	})
-})
\ No newline at end of file
+
+	it('should apply the root format to the cascaded title', async () => {
+		const root = render(Title, { title: 'Root', level: 0, format: '[STAGING] %s' })
+		const page = render(Title, { title: 'Page', level: 1 })
+
+		cleanupFunctions.push(() => {
+			root.unmount?.()
+			page.unmount?.()
+		})
+
+		await waitForTitle('[STAGING] Page • Root')
+
+		const titleElement = document.querySelector('title')
+		expect(titleElement?.textContent).toBe('[STAGING] Page • Root')
+	})
+
+	it('should drop the root separator and format when the root unmounts', async () => {
+		const formatted = render(Title, { title: 'Embedded', level: 0, separator: ' | ', format: '[STAGING] %s' })
+		await waitForTitle('[STAGING] Embedded')
+		formatted.unmount?.()
+
+		expect(get(titleSeparator)).toBe(DEFAULT_SEPARATOR)
+
+		const root = render(Title, { title: 'Root', level: 0 })
+		const page = render(Title, { title: 'Page', level: 1 })
+
+		cleanupFunctions.push(() => {
+			root.unmount?.()
+			page.unmount?.()
+		})
+
+		await waitForTitle('Page • Root')
+		expect(get(titleOptions)).toEqual({})
+	})
+
+	it('should drop the format when the root stops passing it', async () => {
+		const root = render(Title, { title: 'Root', level: 0, format: '[STAGING] %s' })
+		const page = render(Title, { title: 'Page', level: 1 })
+
+		cleanupFunctions.push(() => {
+			root.unmount?.()
+			page.unmount?.()
+		})
+
+		await waitForTitle('[STAGING] Page • Root')
+
+		await root.rerender({ title: 'Root', level: 0, format: undefined })
+		await waitForTitle('Page • Root')
+	})
+
+	it('should show hiddenTitle while the tab is hidden', async () => {
+		const setHidden = (hidden: boolean) => {
+			Object.defineProperty(document, 'hidden', { configurable: true, get: () => hidden })
+			document.dispatchEvent(new Event('visibilitychange'))
+		}
+
+		const root = render(Title, { title: 'Root', level: 0, hiddenTitle: 'Come back!' })
+		const page = render(Title, { title: 'Page', level: 1 })
+
+		cleanupFunctions.push(() => {
+			root.unmount?.()
+			page.unmount?.()
+			delete (document as { hidden?: boolean }).hidden
+		})
+
+		await waitForTitle('Page • Root')
+
+		setHidden(true)
+		await waitForTitle('Come back!')
+
+		setHidden(false)
+		await waitForTitle('Page • Root')
+		expect(document.title).toBe('Page • Root')
+	})
+
+	it('should keep titles inside TitleProvider out of the default manager', async () => {
+		const manager = createTitleManager()
+		const provided = render(ProvidedTitles, { manager })
+
+		cleanupFunctions.push(() => {
+			provided.unmount?.()
+		})
+
+		await waitForTitle('Scoped Page • Scoped App')
+
+		expect(get(manager.titleParts)).toEqual([
+			{ level: 0, title: 'Scoped App' },
+			{ level: 1, title: 'Scoped Page' }
+		])
+		expect(get(titleParts)).toEqual([])
+	})
+
+	it('should retranslate every title when the locale changes', async () => {
+		const messages: Record<string, Record<string, string>> = {
+			en: { 'app.name': 'Acme', 'nav.settings': 'Settings' },
+			de: { 'app.name': 'Acme', 'nav.settings': 'Einstellungen' }
+		}
+		const translator = writable((message: string) => messages.en[message])
+		const root = render(Title, { message: 'app.name', translator, level: 0 })
+		const page = render(Title, { message: 'nav.settings', level: 1 })
+
+		cleanupFunctions.push(() => {
+			root.unmount?.()
+			page.unmount?.()
+		})
+
+		await waitForTitle('Settings • Acme')
+
+		translator.set((message: string) => messages.de[message])
+		await waitForTitle('Einstellungen • Acme')
+	})
+
+	it('should keep nested levels across page changes without resets', async () => {
+		const manager = createTitleManager()
+		const nested = render(NestedTitles, { manager })
+
+		cleanupFunctions.push(() => {
+			nested.unmount?.()
+		})
+
+		await waitForTitle('Billing • Settings • App')
+
+		await nested.rerender({ showPage: false })
+		await waitForTitle('Settings • App')
+
+		await nested.rerender({ showPage: true, page: 'Invoices' })
+		await waitForTitle('Invoices • Settings • App')
+		expect(get(manager.titleParts).map(part => part.level)).toEqual([0, 1, 2])
+	})
+
+	it('should keep the full title when a page remounts with the same title', async () => {
+		const manager = createTitleManager()
+		const nested = render(NestedTitles, { manager })
+
+		cleanupFunctions.push(() => {
+			nested.unmount?.()
+		})
+
+		await waitForTitle('Billing • Settings • App')
+
+		// Like navigating between two pages with the same title
+		const release = manager.holdTitle()
+		await nested.rerender({ pageKey: 1 })
+		expect(document.title).toBe('Billing • Settings • App')
+
+		release()
+		await new Promise(resolve => setTimeout(resolve, 10))
+		expect(document.title).toBe('Billing • Settings • App')
+	})
+
+	it('should keep a sibling title when the other one is removed', async () => {
+		const siblings = render(SiblingTitles, { siblings: 'join' })
+
+		cleanupFunctions.push(() => {
+			siblings.unmount?.()
+		})
+
+		await waitForTitle('Inbox, Drafts • Mail')
+
+		await siblings.rerender({ showDrafts: false })
+		await waitForTitle('Inbox • Mail')
+	})
+
+	it('should write the title to the sinks set on the root', async () => {
+		const write = vi.fn()
+		const manager = createTitleManager()
+		const nested = render(NestedTitles, { manager, sinks: [documentTitleSink(), customSink(write)] })
+
+		cleanupFunctions.push(() => {
+			nested.unmount?.()
+		})
+
+		await waitForTitle('Billing • Settings • App')
+		expect(write).toHaveBeenLastCalledWith('Billing • Settings • App')
+
+		await nested.rerender({ page: 'Invoices' })
+		await waitForTitle('Invoices • Settings • App')
+		expect(write).toHaveBeenLastCalledWith('Invoices • Settings • App')
+		expect(write).not.toHaveBeenCalledWith('')
+	})
+
+	it('should write to the target of a document sink', async () => {
+		const fakeDocument = { title: '' }
+		const before = document.title
+		const nested = render(NestedTitles, { manager: createTitleManager(), sinks: [documentTitleSink(fakeDocument)] })
+
+		cleanupFunctions.push(() => {
+			nested.unmount?.()
+		})
+
+		await vi.waitFor(() => expect(fakeDocument.title).toBe('Billing • Settings • App'))
+		expect(document.title).toBe(before)
+	})
+
+	it('should not render a title without the document sink', async () => {
+		const write = vi.fn()
+		const manager = createTitleManager()
+		const titleCount = document.head.querySelectorAll('title').length
+		const nested = render(NestedTitles, { manager, sinks: [customSink(write)] })
+
+		cleanupFunctions.push(() => {
+			nested.unmount?.()
+		})
+
+		await vi.waitFor(() => expect(write).toHaveBeenLastCalledWith('Billing • Settings • App'))
+		expect(document.head.querySelectorAll('title')).toHaveLength(titleCount)
+	})
+
+	it('should mount a nested setup in strict diagnostics mode', async () => {
+		setTitleDiagnostics({ strict: true })
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+		cleanupFunctions.push(() => {
+			setTitleDiagnostics()
+			warn.mockRestore()
+		})
+
+		const nested = render(NestedTitles, { manager: createTitleManager() })
+		cleanupFunctions.push(() => {
+			nested.unmount?.()
+		})
+
+		await waitForTitle('Billing • Settings • App')
+		expect(warn).not.toHaveBeenCalled()
+	})
+
+	it('should not report level gaps when navigating with the documented reset effect', async () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+		page.url = new URL('http://localhost/inbox')
+		const layout = render(RenderOrderLayout)
+
+		cleanupFunctions.push(() => {
+			layout.unmount?.()
+			warn.mockRestore()
+		})
+
+		await waitForTitle('inbox • App')
+		for (const path of ['drafts', 'sent', 'archive']) {
+			page.url = new URL(`http://localhost/${path}`)
+			await waitForTitle(`${path} • App`)
+		}
+
+		expect(warn).not.toHaveBeenCalled()
+	})
+
+	describe('hard-coded titles', () => {
+		let warn: ReturnType<typeof vi.spyOn>
+		let headNodes: Node[]
+
+		/** Adds nodes to the head the way the server rendered them */
+		function serverHead(html: string) {
+			const template = document.createElement('template')
+			template.innerHTML = html
+			headNodes = Array.from(template.content.childNodes)
+			document.head.prepend(...headNodes)
+		}
+
+		beforeEach(() => {
+			resetTitleDiagnostics()
+			warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+			headNodes = []
+		})
+
+		afterEach(() => {
+			headNodes.forEach(node => node.remove())
+			warn.mockRestore()
+		})
+
+		it('should warn when a title from app.html comes before the SSR title', async () => {
+			serverHead('<title>My Site</title><!--[--><!--[--><!--]--><!--]--><title>App</title>')
+			const root = render(Title, { title: 'App', level: 0 })
+			cleanupFunctions.push(() => root.unmount?.())
+
+			expect(warn).toHaveBeenCalledWith(expect.stringContaining('svelte-title(hardcoded_title): The server-rendered page shows "My Site" instead of the root title'))
+		})
+
+		it('should not warn for a fallback title without SSR', async () => {
+			serverHead('<title>My Site</title>')
+			const root = render(Title, { title: 'App', level: 0 })
+			cleanupFunctions.push(() => root.unmount?.())
+
+			await waitForTitle('App')
+			expect(warn).not.toHaveBeenCalled()
+		})
+
+		it('should not warn for the title written by the handle', async () => {
+			serverHead('<!--[--><!--[--><!--]--><!--]--><meta name="description" content="App"><title>App</title>')
+			const root = render(Title, { title: 'App', level: 0 })
+			cleanupFunctions.push(() => root.unmount?.())
+
+			expect(warn).not.toHaveBeenCalled()
+		})
+
+		it('should not warn for a title after the SSR title', async () => {
+			serverHead('<!--[--><!--[--><!--]--><!--]--><title>App</title><title>My Site</title>')
+			const root = render(Title, { title: 'App', level: 0 })
+			cleanupFunctions.push(() => root.unmount?.())
+
+			expect(warn).not.toHaveBeenCalled()
+		})
+	})
+})
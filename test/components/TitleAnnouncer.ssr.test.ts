@@ -0,0 +1,19 @@
+import { describe, expect, it, vi } from 'vitest'
+import { render } from 'svelte/server'
+import TitleAnnouncer from '../../src/lib/components/TitleAnnouncer.svelte'
+
+vi.mock('$app/navigation', () => ({
+	afterNavigate: vi.fn()
+}))
+
+describe('TitleAnnouncer Component SSR', () => {
+	it('should render an empty live region', () => {
+		const { body } = render(TitleAnnouncer)
+
+		expect(body).toMatch(/<div class="svelte-title-announcer[^"]*" aria-live="assertive" aria-atomic="true"><\/div>/)
+	})
+
+	it('should throw for a template without %s', () => {
+		expect(() => render(TitleAnnouncer, { props: { template: 'Navigated' } })).toThrow('Invalid template')
+	})
+})
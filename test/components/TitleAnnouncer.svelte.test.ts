@@ -0,0 +1,66 @@
+import { describe, expect, it, beforeEach, vi } from 'vitest'
+import { render } from 'vitest-browser-svelte'
+import { tick } from 'svelte'
+import type { AfterNavigate } from '@sveltejs/kit'
+import Title from '../../src/lib/components/Title.svelte'
+import TitleAnnouncer from '../../src/lib/components/TitleAnnouncer.svelte'
+import { clearTitleState } from '../../src/lib/stores/title.js'
+
+const navigation = vi.hoisted(() => ({ callbacks: [] as ((navigation: AfterNavigate) => void)[] }))
+
+vi.mock('$app/navigation', () => ({
+	afterNavigate: (callback: (navigation: AfterNavigate) => void) => navigation.callbacks.push(callback),
+	onNavigate: () => {}
+}))
+
+/**
+ * Runs the afterNavigate callbacks and waits for the announcer to read the title.
+ */
+async function navigate(type: AfterNavigate['type']) {
+	await tick()
+	for (const callback of navigation.callbacks) {
+		callback({ type } as AfterNavigate)
+	}
+	await new Promise(resolve => setTimeout(resolve, 10))
+	await tick()
+}
+
+function getAnnouncement() {
+	return document.querySelector('[aria-live="assertive"]')?.textContent
+}
+
+describe('TitleAnnouncer Component', () => {
+	beforeEach(() => {
+		clearTitleState()
+		navigation.callbacks = []
+	})
+
+	it('should announce the full title after client navigation', async () => {
+		const root = render(Title, { title: 'App', level: 0 })
+		const announcer = render(TitleAnnouncer, { template: 'Now on %s' })
+		await navigate('enter')
+		expect(getAnnouncement()).toBe('')
+
+		const page = render(Title, { title: 'Inbox', level: 1 })
+		await navigate('link')
+
+		expect(getAnnouncement()).toBe('Now on Inbox • App')
+
+		page.unmount?.()
+		announcer.unmount?.()
+		root.unmount?.()
+	})
+
+	it('should stay silent when the title did not change', async () => {
+		const root = render(Title, { title: 'App', level: 0 })
+		const announcer = render(TitleAnnouncer)
+		await navigate('enter')
+
+		await navigate('popstate')
+
+		expect(getAnnouncement()).toBe('')
+
+		announcer.unmount?.()
+		root.unmount?.()
+	})
+})
@@ -0,0 +1,53 @@
+import { describe, expect, it, beforeEach } from 'vitest'
+import { render } from 'vitest-browser-svelte'
+import Title from '../../src/lib/components/Title.svelte'
+import TitleBadge from '../../src/lib/components/TitleBadge.svelte'
+import { clearTitleState } from '../../src/lib/stores/title.js'
+
+async function waitForTitle(expectedTitle: string, timeout = 1000) {
+	const startTime = Date.now()
+	while (Date.now() - startTime < timeout) {
+		if (document.title === expectedTitle) {
+			return
+		}
+		await new Promise(resolve => setTimeout(resolve, 10))
+	}
+	throw new Error(`Timeout: document.title did not become "${expectedTitle}"`)
+}
+
+describe('TitleBadge Component', () => {
+	beforeEach(() => {
+		clearTitleState()
+	})
+
+	it('should prefix the cascaded title with the badge', async () => {
+		const root = render(Title, { title: 'App', level: 0 })
+		const page = render(Title, { title: 'Inbox', level: 1 })
+		const badge = render(TitleBadge, { badge: 3 })
+
+		await waitForTitle('(3) Inbox • App')
+
+		await badge.rerender({ badge: 4 })
+		await waitForTitle('(4) Inbox • App')
+
+		badge.unmount?.()
+		await waitForTitle('Inbox • App')
+		expect(document.title).toBe('Inbox • App')
+
+		root.unmount?.()
+		page.unmount?.()
+	})
+
+	it('should keep the badge when a page overrides the title', async () => {
+		const root = render(Title, { title: 'App', level: 0, badgeFormat: '[%s] ' })
+		const badge = render(TitleBadge, { badge: 'new' })
+		const override = render(Title, { title: 'Compose', override: true })
+
+		await waitForTitle('[new] Compose')
+		expect(document.title).toBe('[new] Compose')
+
+		override.unmount?.()
+		badge.unmount?.()
+		root.unmount?.()
+	})
+})
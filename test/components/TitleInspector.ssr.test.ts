@@ -0,0 +1,61 @@
+import { describe, expect, it, vi, afterEach } from 'vitest'
+import { render } from 'svelte/server'
+import TitleInspector from '../../src/lib/components/TitleInspector.svelte'
+import TitlesWithInspector from '../fixtures/TitlesWithInspector.svelte'
+
+const environment = vi.hoisted(() => ({ dev: true, building: false }))
+
+vi.mock('$app/environment', () => environment)
+
+vi.mock('$app/state', () => ({
+	page: { data: {} }
+}))
+
+/**
+ * Renders the inspector without scoped classes and hydration comments.
+ */
+function renderMarkup(props: { override?: boolean } = {}): string {
+	const { body } = render(TitlesWithInspector, { props })
+	return body.replace(/ class="[^"]*"/g, '').replace(/<!--.*?-->/g, '')
+}
+
+describe('TitleInspector Component SSR', () => {
+	afterEach(() => {
+		environment.dev = true
+	})
+
+	it('should list the parts with their level and source component', () => {
+		const body = renderMarkup()
+
+		expect(body).toContain('<summary>Title: Billing • App</summary>')
+		expect(body).toMatch(/<tr><td>0<\/td><td>App<\/td><td>[^<]*\/test\/fixtures\/TitlesWithInspector\.svelte<\/td><\/tr>/)
+		expect(body).toMatch(/<tr><td>1<\/td><td>Billing<\/td><td>[^<]*\/test\/fixtures\/TitlesWithInspector\.svelte<\/td><\/tr>/)
+		expect(body).toContain('<dt>Override</dt> <dd>none</dd>')
+	})
+
+	it('should show an active override', () => {
+		const body = renderMarkup({ override: true })
+
+		expect(body).toContain('<td>override</td><td>Billing</td>')
+		expect(body).toContain('<dt>Override</dt> <dd>active</dd>')
+	})
+
+	it('should show the separator and level counter', () => {
+		const body = renderMarkup()
+
+		expect(body).toContain('<dt>Separator</dt> <dd><code>" • "</code></dd>')
+		expect(body).toContain('<dt>Level counter</dt> <dd>1</dd>')
+	})
+
+	it('should render nothing in production', () => {
+		environment.dev = false
+
+		const body = renderMarkup()
+
+		expect(body).not.toContain('<details')
+	})
+
+	it('should throw for an invalid number of navigations', () => {
+		expect(() => render(TitleInspector, { props: { navigations: 0 } })).toThrow('Invalid navigations')
+	})
+})
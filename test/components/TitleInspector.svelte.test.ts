@@ -0,0 +1,67 @@
+import { describe, expect, it, beforeEach } from 'vitest'
+import { render } from 'vitest-browser-svelte'
+import { tick } from 'svelte'
+import Title from '../../src/lib/components/Title.svelte'
+import TitleInspector from '../../src/lib/components/TitleInspector.svelte'
+import { clearTitleState, pushTitle } from '../../src/lib/stores/title.js'
+
+async function settle() {
+	await tick()
+	await new Promise(resolve => setTimeout(resolve, 10))
+}
+
+function getTimeline(): string[] {
+	return Array.from(document.querySelectorAll('.svelte-title-inspector li'), item => item.textContent?.replace(/\s+/g, ' ').trim() ?? '')
+}
+
+describe('TitleInspector Component', () => {
+	beforeEach(() => {
+		clearTitleState()
+	})
+
+	it('should show live parts', async () => {
+		render(Title, { title: 'App', level: 0 })
+		const page = render(Title, { title: 'Inbox', level: 1 })
+		render(TitleInspector, { open: true })
+		await settle()
+
+		const rows = Array.from(document.querySelectorAll('.svelte-title-inspector tbody tr'), row => row.textContent)
+		expect(rows).toHaveLength(2)
+		expect(rows[1]).toContain('Inbox')
+
+		page.unmount()
+		await settle()
+
+		expect(document.querySelectorAll('.svelte-title-inspector tbody tr')).toHaveLength(1)
+	})
+
+	it('should record set and remove calls in the timeline', async () => {
+		const page = render(Title, { title: 'Inbox', level: 1 })
+		render(TitleInspector, { open: true })
+		await settle()
+
+		await page.rerender({ title: 'Drafts', level: 1 })
+		page.unmount()
+		await settle()
+
+		const timeline = getTimeline()
+		expect(timeline.some(item => item.includes('set level 1 "Inbox"'))).toBe(true)
+		expect(timeline.some(item => item.includes('set level 1 "Drafts"'))).toBe(true)
+		expect(timeline.some(item => item.includes('remove level 1 "Drafts"'))).toBe(true)
+		expect(document.querySelector('.svelte-title-inspector h3')?.textContent).toBe(location.pathname)
+	})
+
+	it('should show an active override', async () => {
+		render(Title, { title: 'App', level: 0 })
+		render(TitleInspector, { open: true })
+		const override = pushTitle('Saving…')
+		await settle()
+
+		expect(document.querySelector('.svelte-title-inspector dl')?.textContent).toContain('active')
+
+		override.pop()
+		await settle()
+
+		expect(document.querySelector('.svelte-title-inspector dl')?.textContent).toContain('none')
+	})
+})
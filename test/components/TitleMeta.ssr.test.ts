@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { render } from 'svelte/server'
+import TitlesWithMeta from '../fixtures/TitlesWithMeta.svelte'
+
+describe('TitleMeta Component SSR', () => {
+	it('should render og:title and twitter:title with the cascaded title', () => {
+		const result = render(TitlesWithMeta)
+
+		expect(result.head).toContain('<meta property="og:title" content="Settings | App"/>')
+		expect(result.head).toContain('<meta name="twitter:title" content="Settings | App"/>')
+		expect(result.head).not.toContain('apple-mobile-web-app-title')
+	})
+
+	it('should render only the requested tags', () => {
+		const result = render(TitlesWithMeta, {
+			props: { tags: ['apple-mobile-web-app-title'] }
+		})
+
+		expect(result.head).toContain('<meta name="apple-mobile-web-app-title" content="Settings | App"/>')
+		expect(result.head).not.toContain('og:title')
+	})
+
+	it('should render only the page part with format="page"', () => {
+		const result = render(TitlesWithMeta, { props: { format: 'page' } })
+
+		expect(result.head).toContain('<meta property="og:title" content="Settings"/>')
+	})
+
+	it('should accept a custom format function', () => {
+		const result = render(TitlesWithMeta, {
+			props: { format: (parts, separator) => parts.map(p => p.title.toUpperCase()).join(separator) }
+		})
+
+		expect(result.head).toContain('<meta property="og:title" content="SETTINGS | APP"/>')
+	})
+
+	it('should escape meta content', () => {
+		const result = render(TitlesWithMeta, { props: { page: 'Say "hi"', format: 'page' } })
+
+		expect(result.head).toContain('content="Say &quot;hi&quot;"')
+	})
+})
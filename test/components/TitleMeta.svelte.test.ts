@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import { render } from 'vitest-browser-svelte'
+import TitlesWithMeta from '../fixtures/TitlesWithMeta.svelte'
+
+async function waitForMeta(selector: string, expectedContent: string, timeout = 1000) {
+	const startTime = Date.now()
+	while (Date.now() - startTime < timeout) {
+		if (document.head.querySelector(selector)?.getAttribute('content') === expectedContent) {
+			return
+		}
+		await new Promise(resolve => setTimeout(resolve, 10))
+	}
+	throw new Error(`Timeout: ${selector} content did not become "${expectedContent}"`)
+}
+
+describe('TitleMeta Component', () => {
+	it('should mirror the cascaded title into meta tags', async () => {
+		const component = render(TitlesWithMeta)
+
+		await waitForMeta('meta[property="og:title"]', 'Settings | App')
+		await waitForMeta('meta[name="twitter:title"]', 'Settings | App')
+
+		component.unmount?.()
+	})
+
+	it('should update meta tags when a title changes', async () => {
+		const component = render(TitlesWithMeta, { format: 'page' })
+
+		await waitForMeta('meta[property="og:title"]', 'Settings')
+
+		await component.rerender({ page: 'Billing' })
+		await waitForMeta('meta[property="og:title"]', 'Billing')
+
+		component.unmount?.()
+		expect(document.head.querySelector('meta[property="og:title"]')).toBeNull()
+	})
+})
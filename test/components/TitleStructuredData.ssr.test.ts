@@ -0,0 +1,42 @@
+import { describe, expect, it, vi } from 'vitest'
+import { render } from 'svelte/server'
+import TitlesWithStructuredData from '../fixtures/TitlesWithStructuredData.svelte'
+
+vi.mock('$app/state', () => ({
+	page: { data: {}, url: new URL('https://example.com/settings/billing') }
+}))
+
+/**
+ * Extracts and parses the JSON-LD script from rendered head HTML.
+ */
+function getJsonLd(head: string): unknown {
+	const match = head.match(/<script type="application\/ld\+json">(.*?)<\/script>/)
+	return match ? JSON.parse(match[1]) : undefined
+}
+
+describe('TitleStructuredData Component SSR', () => {
+	it('should render a BreadcrumbList with absolute URLs', () => {
+		const { head } = render(TitlesWithStructuredData)
+
+		expect(getJsonLd(head)).toEqual({
+			'@context': 'https://schema.org',
+			'@type': 'BreadcrumbList',
+			itemListElement: [
+				{ '@type': 'ListItem', position: 1, name: 'App', item: 'https://example.com/' },
+				{ '@type': 'ListItem', position: 2, name: 'Settings', item: 'https://example.com/settings/general' },
+				{ '@type': 'ListItem', position: 3, name: 'Billing', item: 'https://example.com/settings/billing' }
+			]
+		})
+	})
+
+	it('should escape titles inside the script tag', () => {
+		const { head } = render(TitlesWithStructuredData, { props: { page: '</script><script>alert(1)</script>' } })
+
+		expect(head.match(/<script/g)).toHaveLength(1)
+		expect(getJsonLd(head)).toMatchObject({
+			itemListElement: expect.arrayContaining([
+				expect.objectContaining({ name: '</script><script>alert(1)</script>' })
+			])
+		})
+	})
+})
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+import { withTitle, getDataTitles } from '../src/lib/data.js'
+
+describe('withTitle', () => {
+	it('should start a title chain without parent data', () => {
+		expect(withTitle('Settings')).toEqual({ title: 'Settings', titles: ['Settings'] })
+	})
+
+	it('should append to the parent titles', () => {
+		const parent = { user: 'sam', ...withTitle('Settings') }
+		expect(withTitle('Billing', parent)).toEqual({ title: 'Billing', titles: ['Settings', 'Billing'] })
+	})
+
+	it('should keep promised titles for streaming', () => {
+		const streamed = Promise.resolve('Invoice #4821')
+		const data = withTitle(streamed, withTitle('Billing'))
+		expect(data.titles[1]).toBe(streamed)
+	})
+})
+
+describe('getDataTitles', () => {
+	it('should read the titles field', () => {
+		expect(getDataTitles({ titles: ['A', 'B'] })).toEqual(['A', 'B'])
+	})
+
+	it('should read a custom field', () => {
+		expect(getDataTitles({ crumbs: ['A'] }, 'crumbs')).toEqual(['A'])
+	})
+
+	it('should ignore missing or malformed fields', () => {
+		expect(getDataTitles({})).toEqual([])
+		expect(getDataTitles({ titles: 'A' })).toEqual([])
+	})
+})
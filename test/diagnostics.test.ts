@@ -0,0 +1,97 @@
+import { describe, expect, it, beforeEach, afterEach, vi } from 'vitest'
+import { reportTitleDiagnostic, setTitleDiagnostics, resetTitleDiagnostics, trackRenderOrderTitle } from '../src/lib/diagnostics.js'
+
+const environment = vi.hoisted(() => ({ dev: true, building: false }))
+
+vi.mock('$app/environment', () => environment)
+
+describe('diagnostics', () => {
+	let warn: ReturnType<typeof vi.spyOn>
+
+	beforeEach(() => {
+		setTitleDiagnostics()
+		warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+	})
+
+	afterEach(() => {
+		warn.mockRestore()
+		environment.dev = true
+	})
+
+	describe('reportTitleDiagnostic', () => {
+		it('should warn once per message with the code', () => {
+			reportTitleDiagnostic('level_gap', 'Level 1 has no title.')
+			reportTitleDiagnostic('level_gap', 'Level 1 has no title.')
+			reportTitleDiagnostic('level_gap', 'Level 2 has no title.')
+
+			expect(warn).toHaveBeenCalledTimes(2)
+			expect(warn).toHaveBeenCalledWith('svelte-title(level_gap): Level 1 has no title.')
+		})
+
+		it('should warn again after a reset', () => {
+			reportTitleDiagnostic('level_gap', 'Level 1 has no title.')
+			resetTitleDiagnostics()
+			reportTitleDiagnostic('level_gap', 'Level 1 has no title.')
+
+			expect(warn).toHaveBeenCalledTimes(2)
+		})
+
+		it('should throw in strict mode', () => {
+			setTitleDiagnostics({ strict: true })
+
+			expect(() => reportTitleDiagnostic('level_gap', 'Level 1 has no title.')).toThrow('svelte-title(level_gap): Level 1 has no title.')
+			expect(() => reportTitleDiagnostic('level_gap', 'Level 1 has no title.')).toThrow()
+			expect(warn).not.toHaveBeenCalled()
+		})
+
+		it('should skip ignored codes', () => {
+			setTitleDiagnostics({ strict: true, ignore: ['level_gap'] })
+
+			expect(() => reportTitleDiagnostic('level_gap', 'Level 1 has no title.')).not.toThrow()
+			expect(warn).not.toHaveBeenCalled()
+		})
+
+		it('should do nothing in production', () => {
+			environment.dev = false
+			setTitleDiagnostics({ strict: true })
+
+			expect(() => reportTitleDiagnostic('level_gap', 'Level 1 has no title.')).not.toThrow()
+			expect(warn).not.toHaveBeenCalled()
+		})
+	})
+
+	describe('trackRenderOrderTitle', () => {
+		const file = '/src/routes/+page.svelte'
+
+		it('should report a second render-order title in the same file', () => {
+			const stopSection = trackRenderOrderTitle({ file, position: '8:2' }, 'Section')
+			const stopPage = trackRenderOrderTitle({ file, position: '9:2' }, 'Page')
+
+			expect(warn).toHaveBeenCalledOnce()
+			expect(warn).toHaveBeenCalledWith(expect.stringMatching(/^svelte-title\(multiple_titles_in_component\): \/src\/routes\/\+page\.svelte renders 2 <Title> components/))
+			stopSection()
+			stopPage()
+		})
+
+		it('should count instances of the same Title once', () => {
+			const stopFirst = trackRenderOrderTitle({ file, position: '8:2' }, 'Card')
+			const stopSecond = trackRenderOrderTitle({ file, position: '8:2' }, 'Card')
+			stopFirst()
+			// Like a {#key} remount, or another instance of the component
+			const stopThird = trackRenderOrderTitle({ file, position: '8:2' }, 'Card')
+
+			expect(warn).not.toHaveBeenCalled()
+			stopSecond()
+			stopThird()
+		})
+
+		it('should stop counting destroyed titles', () => {
+			trackRenderOrderTitle({ file, position: '8:2' }, 'Section')()
+			const stop = trackRenderOrderTitle({ file, position: '9:2' }, 'Page')
+			trackRenderOrderTitle({ file: '/src/routes/other/+page.svelte', position: '8:2' }, 'Other')()
+
+			expect(warn).not.toHaveBeenCalled()
+			stop()
+		})
+	})
+})
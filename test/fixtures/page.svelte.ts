@@ -0,0 +1,10 @@
+/**
+ * Reactive stand-in for the `page` of `$app/state`, so browser tests can navigate.
+ * Like SvelteKit, a navigation replaces the URL instead of changing it.
+ */
+class TestPage {
+	url = $state.raw(new URL('http://localhost/inbox'))
+	data = $state.raw<Record<string, unknown>>({})
+}
+
+export const page = new TestPage()
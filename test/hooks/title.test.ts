@@ -0,0 +1,258 @@
+import { describe, expect, it, beforeEach, vi } from 'vitest'
+import { render } from 'svelte/server'
+import type { Handle, RequestEvent, ResolveOptions } from '@sveltejs/kit'
+import Title from '../../src/lib/components/Title.svelte'
+import ProvidedTitles from '../fixtures/ProvidedTitles.svelte'
+import { createTitleHandle, titleHandle } from '../../src/lib/hooks/title.js'
+import { clearTitleState } from '../../src/lib/stores/title.js'
+import { requestTitleMarkers } from '../../src/lib/hooks/markers.js'
+import { page } from '$app/state'
+
+vi.mock('$app/state', () => ({
+	page: { data: {} }
+}))
+
+vi.mock('$app/environment', () => ({ dev: true, building: true }))
+
+/**
+ * Runs a handle against a fake resolve and returns the transformed HTML.
+ */
+async function transform(handle: Handle, html: string): Promise<string> {
+	let options: ResolveOptions | undefined
+	await handle({
+		event: {} as RequestEvent,
+		resolve: async (_event, opts) => {
+			options = opts
+			return new Response()
+		}
+	})
+	const result = await options?.transformPageChunk?.({ html, done: true })
+	return result ?? html
+}
+
+/**
+ * Runs a handle for one request whose page renders inside resolve, as in SvelteKit.
+ */
+async function renderRequest(handle: Handle, renderHead: () => string): Promise<string> {
+	let html = ''
+	await handle({
+		event: {} as RequestEvent,
+		resolve: async (_event, opts) => {
+			const page = htmlPage(renderHead())
+			html = (await opts?.transformPageChunk?.({ html: page, done: true })) ?? page
+			return new Response(html)
+		}
+	})
+	return html
+}
+
+function htmlPage(head: string): string {
+	return `<!doctype html><html><head><meta charset="utf-8">${head}</head><body><div>app</div></body></html>`
+}
+
+describe('titleHandle', () => {
+	beforeEach(() => {
+		clearTitleState()
+		// Components render before the handle in these tests, as on every request after the first
+		requestTitleMarkers()
+		page.data = {}
+	})
+
+	it('should make Title components emit markers', async () => {
+		requestTitleMarkers(false)
+		expect(render(Title, { props: { title: 'App', level: 0 } }).head).not.toContain('svelte-title:')
+
+		await transform(titleHandle, htmlPage(''))
+
+		expect(render(Title, { props: { title: 'App', level: 0 } }).head).toContain('svelte-title:')
+	})
+
+	it('should start every request without the titles of the previous one', async () => {
+		const request = () => renderRequest(titleHandle, () => {
+			const layout = render(Title, { props: { title: 'App', separator: ' | ' } })
+			const page = render(Title, { props: { title: 'Billing' } })
+			return layout.head + page.head
+		})
+
+		expect(await request()).toContain('<title>Billing | App</title>')
+		expect(await request()).toContain('<title>Billing | App</title>')
+	})
+
+	it('should emit the cascaded title for all rendered parts', async () => {
+		const layout = render(Title, { props: { title: 'App', level: 0 } })
+		const section = render(Title, { props: { title: 'Settings', level: 1 } })
+		const leaf = render(Title, { props: { title: 'Billing', level: 2 } })
+
+		const html = await transform(titleHandle, htmlPage(layout.head + section.head + leaf.head))
+
+		expect(html).toContain('<title>Billing • Settings • App</title>')
+		expect(html.match(/<title>/g)).toHaveLength(1)
+		expect(html).not.toContain('svelte-title:')
+	})
+
+	it('should use the separator set by the root Title', async () => {
+		const layout = render(Title, { props: { title: 'App', level: 0, separator: ' | ' } })
+		const leaf = render(Title, { props: { title: 'Page', level: 1 } })
+
+		const html = await transform(titleHandle, htmlPage(layout.head + leaf.head))
+
+		expect(html).toContain('<title>Page | App</title>')
+	})
+
+	it('should fall back to the handle separator', async () => {
+		const layout = render(Title, { props: { title: 'App', level: 0 } })
+		const leaf = render(Title, { props: { title: 'Page', level: 1 } })
+
+		const html = await transform(createTitleHandle({ separator: ' - ' }), htmlPage(layout.head + leaf.head))
+
+		expect(html).toContain('<title>Page - App</title>')
+	})
+
+	it('should apply the format set by the root Title', async () => {
+		const layout = render(Title, { props: { title: 'App', level: 0, format: '%s — Acme' } })
+		const leaf = render(Title, { props: { title: 'Page', level: 1 } })
+
+		const html = await transform(titleHandle, htmlPage(layout.head + leaf.head))
+
+		expect(html).toContain('<title>Page • App — Acme</title>')
+	})
+
+	it('should apply the direction set by the root Title', async () => {
+		const layout = render(Title, { props: { title: 'App', level: 0, direction: 'general-first' } })
+		const leaf = render(Title, { props: { title: 'Page', level: 1 } })
+
+		const html = await transform(titleHandle, htmlPage(layout.head + leaf.head))
+
+		expect(html).toContain('<title>App • Page</title>')
+	})
+
+	it('should emit translated titles and separators', async () => {
+		const messages: Record<string, string> = { 'app.name': 'Acme', 'nav.settings': 'Einstellungen', separator: ' – ' }
+		const translator = (message: string) => messages[message]
+		const layout = render(Title, { props: { message: 'app.name', translator, separatorMessage: 'separator', level: 0 } })
+		const leaf = render(Title, { props: { message: 'nav.settings', level: 1 } })
+
+		const html = await transform(titleHandle, htmlPage(layout.head + leaf.head))
+
+		expect(html).toContain('<title>Einstellungen – Acme</title>')
+	})
+
+	it('should apply a formatter function passed to the handle', async () => {
+		const layout = render(Title, { props: { title: 'App', level: 0 } })
+		const leaf = render(Title, { props: { title: 'Page', level: 1 } })
+
+		const handle = createTitleHandle({ format: (parts) => parts.map(p => p.title).reverse().join(' / ') })
+		const html = await transform(handle, htmlPage(layout.head + leaf.head))
+
+		expect(html).toContain('<title>App / Page</title>')
+	})
+
+	it('should apply maxLength and short texts from SSR', async () => {
+		const layout = render(Title, { props: { title: 'Acme Workspace', level: 0, maxLength: 35 } })
+		const section = render(Title, { props: { title: 'Organization Settings', short: 'Settings', level: 1 } })
+		const leaf = render(Title, { props: { title: 'Billing', level: 2 } })
+
+		const html = await transform(titleHandle, htmlPage(layout.head + section.head + leaf.head))
+
+		expect(html).toContain('<title>Billing • Settings • Acme Workspace</title>')
+	})
+
+	it('should include data titles read by the root Title', async () => {
+		page.data = { titles: ['Settings', 'Billing'] }
+		const layout = render(Title, { props: { title: 'App', fromData: true } })
+
+		const html = await transform(titleHandle, htmlPage(layout.head))
+
+		expect(html).toContain('<title>Billing • Settings • App</title>')
+	})
+
+	it('should combine same-level titles with the root sibling policy', async () => {
+		const layout = render(Title, { props: { title: 'Mail', level: 0, siblings: 'join' } })
+		const inbox = render(Title, { props: { title: 'Inbox', level: 1 } })
+		const drafts = render(Title, { props: { title: 'Drafts', level: 1 } })
+
+		const html = await transform(titleHandle, htmlPage(layout.head + inbox.head + drafts.head))
+
+		expect(html).toContain('<title>Inbox, Drafts • Mail</title>')
+	})
+
+	it('should let registered titles replace data titles at the same level', async () => {
+		page.data = { titles: ['Settings'] }
+		const layout = render(Title, { props: { title: 'App', fromData: true, siblings: 'join' } })
+		const section = render(Title, { props: { title: 'Preferences', level: 1 } })
+
+		const html = await transform(titleHandle, htmlPage(layout.head + section.head))
+
+		expect(html).toContain('<title>Preferences • App</title>')
+	})
+
+	it('should collect parts rendered inside a TitleProvider', async () => {
+		const result = render(ProvidedTitles)
+
+		const html = await transform(titleHandle, htmlPage(result.head))
+
+		expect(html).toContain('<title>Scoped Page • Scoped App</title>')
+	})
+
+	it('should respect override mode', async () => {
+		const layout = render(Title, { props: { title: 'App', level: 0 } })
+		const override = render(Title, { props: { title: 'Not Found', override: true } })
+
+		const html = await transform(titleHandle, htmlPage(layout.head + override.head))
+
+		expect(html).toContain('<title>Not Found</title>')
+	})
+
+	it('should apply the root normalize option', async () => {
+		const layout = render(Title, { props: { title: 'Settings', level: 0, normalize: true } })
+		const page = render(Title, { props: { title: '<em>Settings</em>&nbsp;', level: 1 } })
+
+		const html = await transform(titleHandle, htmlPage(layout.head + page.head))
+
+		expect(html).toContain('<title>Settings</title>')
+	})
+
+	it('should show the highest priority override', async () => {
+		const layout = render(Title, { props: { title: 'App', level: 0 } })
+		const error = render(Title, { props: { title: 'Not Found', override: true, priority: 5 } })
+		const dialog = render(Title, { props: { title: 'Sign in', override: true } })
+
+		const html = await transform(titleHandle, htmlPage(layout.head + error.head + dialog.head))
+
+		expect(html).toContain('<title>Not Found</title>')
+	})
+
+	it('should keep the markers for the manifest plugin while building', async () => {
+		vi.stubEnv('SVELTE_TITLE_MANIFEST', '1')
+		const layout = render(Title, { props: { title: 'App', level: 0 } })
+
+		const html = await transform(titleHandle, htmlPage(layout.head))
+
+		expect(html).toContain('<title>App</title>')
+		expect(html).toContain('svelte-title:')
+		vi.unstubAllEnvs()
+	})
+
+	it('should replace a hard-coded title from app.html', async () => {
+		const layout = render(Title, { props: { title: 'App', level: 0 } })
+
+		const html = await transform(titleHandle, htmlPage('<title>Placeholder</title>' + layout.head))
+
+		expect(html).toContain('<title>App</title>')
+		expect(html).not.toContain('Placeholder')
+	})
+
+	it('should escape titles', async () => {
+		const layout = render(Title, { props: { title: 'Q&A <beta>', level: 0 } })
+
+		const html = await transform(titleHandle, htmlPage(layout.head))
+
+		expect(html).toContain('<title>Q&amp;A &lt;beta></title>')
+	})
+
+	it('should leave pages without title markers untouched', async () => {
+		const original = htmlPage('<title>Static</title>')
+
+		expect(await transform(titleHandle, original)).toBe(original)
+	})
+})
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import { findEmptyLevels, findSourceFile, findSourceLocation, groupTimeline } from '../src/lib/inspector.js'
+import type { TitleInspectorPart, TitleTimelineEntry } from '../src/lib/stores/title.js'
+
+function entry(pathname: string | null, title: string): TitleTimelineEntry {
+	return { action: 'set', level: 0, title, pathname, timestamp: 0 }
+}
+
+function part(level: number, override = false): TitleInspectorPart {
+	return { level, title: `Level ${level}`, override, data: false }
+}
+
+describe('findSourceFile', () => {
+	it('should skip the calling component in a Chrome stack', () => {
+		const stack = [
+			'Error',
+			'    at Title (http://localhost:5173/src/lib/components/Title.svelte?t=1700000000000:246:44)',
+			'    at http://localhost:5173/node_modules/.vite/deps/svelte_internal_client.js:1200:10',
+			'    at Layout (http://localhost:5173/src/routes/+layout.svelte:12:3)'
+		].join('\n')
+
+		expect(findSourceFile(stack, 'http://localhost:5173/src/lib/components/Title.svelte?t=1700000000000')).toBe('/src/routes/+layout.svelte')
+	})
+
+	it('should read Firefox stacks', () => {
+		const stack = 'Title@http://localhost:5173/src/lib/components/Title.svelte:246:44\nPage@http://localhost:5173/src/routes/settings/+page.svelte:8:2'
+
+		expect(findSourceFile(stack, 'http://localhost:5173/src/lib/components/Title.svelte')).toBe('/src/routes/settings/+page.svelte')
+	})
+
+	it('should return the first component without an own file', () => {
+		const stack = '    at useTitle (http://localhost:5173/src/lib/runes/title.svelte.ts:128:2)\n    at Page (http://localhost:5173/src/routes/%5Bid%5D/+page.svelte:4:15)'
+
+		expect(findSourceFile(stack)).toBe('/src/routes/[id]/+page.svelte')
+	})
+
+	it('should return undefined without a component frame', () => {
+		expect(findSourceFile('Error\n    at main (file:///app/index.js:1:1)')).toBeUndefined()
+		expect(findSourceFile(undefined)).toBeUndefined()
+	})
+})
+
+describe('findSourceLocation', () => {
+	it('should return the file and position of the component frame', () => {
+		const stack = 'Title@http://localhost:5173/src/lib/components/Title.svelte:246:44\nPage@http://localhost:5173/src/routes/settings/+page.svelte?t=1700000000000:8:2'
+
+		expect(findSourceLocation(stack, 'http://localhost:5173/src/lib/components/Title.svelte')).toEqual({
+			file: '/src/routes/settings/+page.svelte',
+			position: '8:2'
+		})
+	})
+})
+
+describe('groupTimeline', () => {
+	it('should group calls by navigation, newest first', () => {
+		const timeline = [entry('/', 'App'), entry('/inbox', 'Inbox'), entry('/inbox', 'App'), entry('/', 'Home')]
+
+		expect(groupTimeline(timeline, 5)).toEqual([
+			{ pathname: '/', entries: [entry('/', 'Home')] },
+			{ pathname: '/inbox', entries: [entry('/inbox', 'Inbox'), entry('/inbox', 'App')] },
+			{ pathname: '/', entries: [entry('/', 'App')] }
+		])
+	})
+
+	it('should keep the latest navigations', () => {
+		const timeline = [entry('/', 'App'), entry('/inbox', 'Inbox'), entry('/drafts', 'Drafts')]
+
+		expect(groupTimeline(timeline, 2).map(group => group.pathname)).toEqual(['/drafts', '/inbox'])
+	})
+})
+
+describe('findEmptyLevels', () => {
+	it('should find levels skipped below the highest level', () => {
+		expect(findEmptyLevels([part(0), part(3)], 1)).toEqual([1, 2])
+	})
+
+	it('should count levels handed out by the counter', () => {
+		expect(findEmptyLevels([part(0)], 3)).toEqual([1])
+	})
+
+	it('should ignore overrides', () => {
+		expect(findEmptyLevels([part(-1, true), part(0)], 1)).toEqual([])
+		expect(findEmptyLevels([], 0)).toEqual([])
+	})
+})
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { createBreadcrumbList, serializeJsonLd } from '../src/lib/jsonld.js'
+
+describe('createBreadcrumbList', () => {
+	it('should number items from the root with absolute URLs', () => {
+		const list = createBreadcrumbList([
+			{ level: 0, title: 'App', href: '/' },
+			{ level: 1, title: 'Settings', href: '/settings' }
+		], 'https://example.com')
+
+		expect(list).toEqual({
+			'@context': 'https://schema.org',
+			'@type': 'BreadcrumbList',
+			itemListElement: [
+				{ '@type': 'ListItem', position: 1, name: 'App', item: 'https://example.com/' },
+				{ '@type': 'ListItem', position: 2, name: 'Settings', item: 'https://example.com/settings' }
+			]
+		})
+	})
+
+	it('should keep absolute hrefs', () => {
+		const list = createBreadcrumbList([{ level: 0, title: 'Docs', href: 'https://docs.example.com/' }], 'https://example.com')
+
+		expect(list.itemListElement[0].item).toBe('https://docs.example.com/')
+	})
+})
+
+describe('serializeJsonLd', () => {
+	it('should escape characters that could end the script tag', () => {
+		const json = serializeJsonLd({ name: '</script><!-- & -->' })
+
+		expect(json).not.toMatch(/[<>&]/)
+		expect(JSON.parse(json)).toEqual({ name: '</script><!-- & -->' })
+	})
+
+	it('should escape line separators', () => {
+		expect(serializeJsonLd('a\u2028b\u2029c')).toBe('"a\\u2028b\\u2029c"')
+	})
+})
@@ -0,0 +1,89 @@
+import { describe, expect, it, vi } from 'vitest'
+import { normalizeTitleParts, DEFAULT_NORMALIZE_STEPS, type TitleTransform } from '../src/lib/normalize.js'
+import { buildTitle } from '../src/lib/stores/title.js'
+
+describe('normalizeTitleParts', () => {
+	it('should clean up titles from CMS data', () => {
+		const parts = [
+			{ level: 0, title: '  Acme\u200B ' },
+			{ level: 1, title: '<b>Tom &amp; Jerry</b>\n\tEpisodes' },
+			{ level: 2, title: 'Caf&#233;&nbsp;&#x2615;\u0007', short: ' Caf&eacute; ' }
+		]
+		expect(normalizeTitleParts(parts)).toEqual([
+			{ level: 0, title: 'Acme' },
+			{ level: 1, title: 'Tom & Jerry Episodes' },
+			{ level: 2, title: 'Café ☕', short: 'Caf&eacute;' }
+		])
+	})
+
+	it('should drop empty parts and repeated levels', () => {
+		const parts = [
+			{ level: 2, title: 'Settings' },
+			{ level: 1, title: 'Settings ' },
+			{ level: 3, title: '<br>' },
+			{ level: 0, title: 'App' },
+			{ level: -1, title: 'App' }
+		]
+		expect(normalizeTitleParts(parts)).toEqual([
+			{ level: -1, title: 'App' },
+			{ level: 0, title: 'App' },
+			{ level: 1, title: 'Settings' }
+		])
+	})
+
+	it('should keep zero-width joiners in emoji sequences', () => {
+		const family = '\u{1F468}\u200D\u{1F469}\u200D\u{1F467}'
+		expect(normalizeTitleParts([{ level: 0, title: family }])).toEqual([{ level: 0, title: family }])
+	})
+
+	it('should run custom transforms in order', () => {
+		const upperCase: TitleTransform = parts => parts.map(part => ({ ...part, title: part.title.toUpperCase() }))
+		const parts = [{ level: 0, title: ' app ' }, { level: 1, title: 'App' }]
+
+		expect(normalizeTitleParts(parts, [...DEFAULT_NORMALIZE_STEPS, upperCase])).toEqual([
+			{ level: 0, title: 'APP' },
+			{ level: 1, title: 'APP' }
+		])
+		expect(normalizeTitleParts(parts, ['whitespace', upperCase, 'duplicates'])).toEqual([{ level: 0, title: 'APP' }])
+		expect(normalizeTitleParts(parts, false)).toEqual(parts)
+	})
+
+	it('should report invalid parts through the warning context', () => {
+		const warn = vi.fn()
+		const parts = [{ level: 0, title: 'App' }, { level: 'one', title: 'Bad' }]
+
+		expect(normalizeTitleParts(parts, true, { warn })).toEqual([{ level: 0, title: 'App' }])
+		expect(warn).toHaveBeenCalledWith('Ignoring invalid title part:', { level: 'one', title: 'Bad' })
+	})
+
+	it('should let transforms report warnings', () => {
+		const warn = vi.fn()
+		const rejectLong: TitleTransform = (parts, context) => parts.filter(part => {
+			if (part.title.length > 10) context.warn('Dropping long title part:', part)
+			return part.title.length <= 10
+		})
+
+		normalizeTitleParts([{ level: 0, title: 'A very long title' }], [rejectLong], { warn })
+
+		expect(warn).toHaveBeenCalledWith('Dropping long title part:', { level: 0, title: 'A very long title' })
+	})
+})
+
+describe('buildTitle normalize option', () => {
+	it('should normalize the parts before building', () => {
+		const parts = [
+			{ level: 0, title: 'App' },
+			{ level: 1, title: 'Settings' },
+			{ level: 2, title: ' Settings' }
+		]
+		expect(buildTitle(parts)).toBe(' Settings • Settings • App')
+		expect(buildTitle(parts, ' • ', { normalize: true })).toBe('Settings • App')
+	})
+
+	it('should throw for unknown steps', () => {
+		// @ts-expect-error - testing invalid input
+		expect(() => buildTitle([], ' • ', { normalize: ['trim'] })).toThrow('Invalid normalize step: "trim"')
+		// @ts-expect-error - testing invalid input
+		expect(() => buildTitle([], ' • ', { normalize: 'all' })).toThrow('Invalid normalize')
+	})
+})
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { render } from 'vitest-browser-svelte'
+import { tick } from 'svelte'
+import { useTitle, TitleState } from '../../src/lib/runes/title.svelte.js'
+import { createTitleManager } from '../../src/lib/stores/title.js'
+import UseTitlePage from '../fixtures/UseTitlePage.svelte'
+
+describe('useTitle', () => {
+	it('should follow the text getter', async () => {
+		const manager = createTitleManager()
+		let text = $state('Settings')
+		manager.setTitlePart(0, 'App')
+
+		const cleanup = $effect.root(() => {
+			useTitle(() => text, { manager })
+		})
+		await tick()
+		expect(manager.buildTitle()).toBe('Settings • App')
+
+		text = 'Billing'
+		await tick()
+		expect(manager.buildTitle()).toBe('Billing • App')
+
+		text = ''
+		await tick()
+		expect(manager.buildTitle()).toBe('App')
+
+		cleanup()
+	})
+
+	it('should remove the part when the effect root is destroyed', async () => {
+		const manager = createTitleManager()
+
+		const cleanup = $effect.root(() => {
+			useTitle(() => 'Settings', { manager, level: 1 })
+		})
+		await tick()
+		expect(manager.buildTitle()).toBe('Settings')
+
+		cleanup()
+		await tick()
+		expect(manager.buildTitle()).toBe('')
+	})
+
+	it('should drive the document title without a Title element for the page', async () => {
+		const manager = createTitleManager()
+		const component = render(UseTitlePage, { manager })
+		await tick()
+
+		expect(document.title).toBe('Settings • App')
+
+		await component.rerender({ page: 'Billing' })
+		await tick()
+		expect(document.title).toBe('Billing • App')
+
+		component.unmount?.()
+	})
+})
+
+describe('TitleState', () => {
+	it('should be reactive in effects', async () => {
+		const manager = createTitleManager()
+		const state = new TitleState(manager)
+		const seen: string[] = []
+
+		const cleanup = $effect.root(() => {
+			$effect(() => {
+				seen.push(state.current)
+			})
+		})
+		await tick()
+
+		manager.setTitlePart(0, 'App')
+		await tick()
+
+		expect(seen).toEqual(['', 'App'])
+		cleanup()
+	})
+})
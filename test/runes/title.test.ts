@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { render } from 'svelte/server'
+import { TitleState } from '../../src/lib/runes/title.svelte.js'
+import { createTitleManager } from '../../src/lib/stores/title.js'
+import UseTitlePage from '../fixtures/UseTitlePage.svelte'
+import UseTitle from '../fixtures/UseTitle.svelte'
+
+describe('TitleState', () => {
+	it('should read the manager state', () => {
+		const manager = createTitleManager()
+		const state = new TitleState(manager)
+		manager.setTitlePart(0, 'App')
+		manager.setTitlePart(1, 'Settings')
+
+		expect(state.parts).toEqual([
+			{ level: 0, title: 'App' },
+			{ level: 1, title: 'Settings' }
+		])
+		expect(state.current).toBe('Settings • App')
+		expect(state.breadcrumbs.map(crumb => crumb.title)).toEqual(['App', 'Settings'])
+	})
+
+	it('should write the separator and options through the manager', () => {
+		const manager = createTitleManager()
+		const state = new TitleState(manager)
+		manager.setTitlePart(0, 'App')
+		manager.setTitlePart(1, 'Settings')
+
+		state.separator = ' | '
+		state.options = { format: '%s — Acme' }
+
+		expect(state.separator).toBe(' | ')
+		expect(state.current).toBe('Settings | App — Acme')
+		expect(() => { state.separator = '' }).toThrow('Invalid separator')
+	})
+})
+
+describe('useTitle SSR', () => {
+	it('should register the part during SSR', () => {
+		const manager = createTitleManager()
+		const { body, head } = render(UseTitlePage, { props: { manager } })
+
+		expect(body).toContain('<p>Settings • App</p>')
+		expect(head).toContain('<title>App</title>')
+	})
+
+	it('should remove the part after rendering', () => {
+		const manager = createTitleManager()
+		render(UseTitle, { props: { text: 'Standalone', options: { manager, override: true } } })
+
+		expect(manager.buildTitle()).toBe('')
+	})
+
+	it('should skip empty texts', () => {
+		const manager = createTitleManager()
+		const { body } = render(UseTitle, { props: { text: '', options: { manager, level: 1 } } })
+
+		expect(body).toContain('<p></p>')
+	})
+
+	it('should throw for an invalid level', () => {
+		expect(() => render(UseTitle, { props: { text: 'Page', options: { level: -2 } } })).toThrow('Invalid level')
+	})
+})
@@ -0,0 +1,106 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+	customSink,
+	documentTitleSink,
+	isDocumentTitleSink,
+	postMessageSink,
+	writesDocumentTitle,
+	DEFAULT_TITLE_MESSAGE_TYPE
+} from '../src/lib/sinks.js'
+
+describe('sinks', () => {
+	describe('documentTitleSink', () => {
+		it('should write the title to the document', () => {
+			const fakeDocument = { title: '' }
+			const sink = documentTitleSink(fakeDocument)
+
+			sink.write('Settings • App')
+
+			expect(fakeDocument.title).toBe('Settings • App')
+		})
+
+		it('should not assign an unchanged title', () => {
+			let assignments = 0
+			const fakeDocument = {
+				get title() {
+					return 'App'
+				},
+				set title(_value: string) {
+					assignments++
+				}
+			}
+
+			documentTitleSink(fakeDocument).write('App')
+
+			expect(assignments).toBe(0)
+		})
+
+		it('should be recognized as the document sink', () => {
+			expect(isDocumentTitleSink(documentTitleSink())).toBe(true)
+			expect(isDocumentTitleSink(customSink(() => {}))).toBe(false)
+		})
+
+		it('should be written like other sinks with a target', () => {
+			expect(isDocumentTitleSink(documentTitleSink({ title: '' }))).toBe(false)
+		})
+	})
+
+	describe('postMessageSink', () => {
+		it('should post the title to the target origin', () => {
+			const target = { postMessage: vi.fn() }
+			const sink = postMessageSink(target, 'https://shop.example')
+
+			sink.write('Cart • Widget')
+
+			expect(target.postMessage).toHaveBeenCalledWith(
+				{ type: DEFAULT_TITLE_MESSAGE_TYPE, title: 'Cart • Widget' },
+				'https://shop.example'
+			)
+		})
+
+		it('should use a custom message type', () => {
+			const target = { postMessage: vi.fn() }
+
+			postMessageSink(target, '*', { type: 'widget:title' }).write('Cart')
+
+			expect(target.postMessage).toHaveBeenCalledWith({ type: 'widget:title', title: 'Cart' }, '*')
+		})
+
+		it('should look up a target function on each write', () => {
+			const target = { postMessage: vi.fn() }
+			const getTarget = vi.fn(() => target)
+			const sink = postMessageSink(getTarget, '*')
+
+			expect(getTarget).not.toHaveBeenCalled()
+
+			sink.write('Cart')
+			sink.write('Checkout')
+
+			expect(getTarget).toHaveBeenCalledTimes(2)
+			expect(target.postMessage).toHaveBeenLastCalledWith({ type: DEFAULT_TITLE_MESSAGE_TYPE, title: 'Checkout' }, '*')
+		})
+
+		it('should reject an empty target origin', () => {
+			expect(() => postMessageSink({ postMessage: vi.fn() }, '')).toThrow('Invalid targetOrigin')
+		})
+	})
+
+	describe('customSink', () => {
+		it('should call the function with each title', () => {
+			const setWindowTitle = vi.fn()
+			const sink = customSink(setWindowTitle)
+
+			sink.write('Inbox • Mail')
+
+			expect(setWindowTitle).toHaveBeenCalledWith('Inbox • Mail')
+		})
+	})
+
+	describe('writesDocumentTitle', () => {
+		it('should check for a document sink', () => {
+			expect(writesDocumentTitle([documentTitleSink(), customSink(() => {})])).toBe(true)
+			expect(writesDocumentTitle([customSink(() => {})])).toBe(false)
+			expect(writesDocumentTitle([])).toBe(false)
+		})
+	})
+})
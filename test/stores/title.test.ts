@@ -1,5 +1,5 @@
-import { describe, expect, it, beforeEach } from 'vitest'
-import { get } from 'svelte/store'
+import { describe, expect, it, beforeEach, afterEach, vi } from 'vitest'
+import { get, writable } from 'svelte/store'
 import { 
 	titleParts, 
 	titleSeparator, 
@@ -8,14 +8,24 @@ import {
 	buildTitle, 
 	setSeparator,
 	OVERRIDE_LEVEL,
-	resetLevelCounter 
+	resetLevelCounter,
+	createTitleManager,
+	getLeafTitle,
+	getBreadcrumbs,
+	mergeTitleSiblings,
+	resolveBreadcrumbHrefs,
+	formatTitleBadge,
+	TITLE_TIMELINE_SIZE
 } from '../../src/lib/stores/title.js'
+import { resetTitleDiagnostics } from '../../src/lib/diagnostics.js'
+import { customSink, writesDocumentTitle } from '../../src/lib/sinks.js'
 
 describe('Title Store', () => {
 	beforeEach(() => {
 		titleParts.set([])
 		titleSeparator.set(' • ')
 		resetLevelCounter()
+		resetTitleDiagnostics()
 	})
 
 	describe('buildTitle', () => {
@@ -59,6 +69,1105 @@ describe('Title Store', () => {
 		})
 	})
 
+	describe('buildTitle format', () => {
+		const parts = [
+			{ level: 0, title: 'App' },
+			{ level: 1, title: 'Settings' }
+		]
+
+		it('should apply a template string', () => {
+			expect(buildTitle(parts, ' • ', { format: '%s — Acme' })).toBe('Settings • App — Acme')
+			expect(buildTitle(parts, ' | ', { format: '[STAGING] %s' })).toBe('[STAGING] Settings | App')
+		})
+
+		it('should replace every %s and keep replacement patterns literal', () => {
+			const special = [{ level: 0, title: 'Price $& more' }]
+			expect(buildTitle(special, ' • ', { format: '%s / %s' })).toBe('Price $& more / Price $& more')
+		})
+
+		it('should call a formatter with parts in display order', () => {
+			const result = buildTitle(parts, ' / ', {
+				format: (ordered, separator) => `«${ordered[0].title}»${separator}${ordered.slice(1).map(p => p.title).join(separator)}`
+			})
+			expect(result).toBe('«Settings» / App')
+		})
+
+		it('should format override titles', () => {
+			const withOverride = [...parts, { level: OVERRIDE_LEVEL, title: 'Not Found' }]
+			expect(buildTitle(withOverride, ' • ', { format: '%s — Acme' })).toBe('Not Found — Acme')
+		})
+
+		it('should return an empty string for empty parts', () => {
+			expect(buildTitle([], ' • ', { format: '%s — Acme' })).toBe('')
+		})
+
+		it('should throw for a template without %s', () => {
+			expect(() => buildTitle(parts, ' • ', { format: 'Acme' })).toThrow('Invalid format: "Acme" must contain \'%s\' for the title.')
+		})
+
+		it('should use the manager options', () => {
+			const manager = createTitleManager()
+			manager.setTitleOptions({ format: '%s — Acme' })
+			manager.setTitlePart(0, 'App')
+
+			expect(manager.buildTitle()).toBe('App — Acme')
+
+			manager.clearTitleState()
+			manager.setTitlePart(0, 'App')
+			expect(manager.buildTitle()).toBe('App')
+		})
+	})
+
+	describe('buildTitle maxLength', () => {
+		const parts = [
+			{ level: 0, title: 'Acme Workspace' },
+			{ level: 1, title: 'Organization Settings' },
+			{ level: 2, title: 'Billing' },
+			{ level: 3, title: 'Invoice #4821' }
+		]
+
+		it('should leave titles that fit unchanged', () => {
+			expect(buildTitle(parts, ' • ', { maxLength: 100 })).toBe('Invoice #4821 • Billing • Organization Settings • Acme Workspace')
+		})
+
+		it('should drop middle levels closest to the root first', () => {
+			expect(buildTitle(parts, ' • ', { maxLength: 40 })).toBe('Invoice #4821 • Billing • Acme Workspace')
+			expect(buildTitle(parts, ' • ', { maxLength: 30 })).toBe('Invoice #4821 • Acme Workspace')
+		})
+
+		it('should use short texts before dropping levels', () => {
+			const withShort = parts.map(p => p.level === 1 ? { ...p, short: 'Settings' } : p)
+			expect(buildTitle(withShort, ' • ', { maxLength: 51 })).toBe('Invoice #4821 • Billing • Settings • Acme Workspace')
+		})
+
+		it('should shorten and drop lower priorities first', () => {
+			const prioritized = parts.map(p => p.level === 1 ? { ...p, priority: 1 } : p)
+			expect(buildTitle(prioritized, ' • ', { maxLength: 55 })).toBe('Invoice #4821 • Organization Settings • Acme Workspace')
+		})
+
+		it('should ellipsize the leaf while keeping the root', () => {
+			const result = buildTitle(parts, ' • ', { maxLength: 25 })
+			expect(result).toBe('Invoice… • Acme Workspace')
+			expect(Array.from(result).length).toBeLessThanOrEqual(25)
+		})
+
+		it('should drop the root when the leaf cannot fit beside it', () => {
+			expect(buildTitle(parts, ' • ', { maxLength: 10 })).toBe('Invoice #…')
+		})
+
+		it('should count the format template towards the length', () => {
+			const result = buildTitle(parts, ' • ', { maxLength: 40, format: '%s — Acme' })
+			expect(result).toBe('Invoice #4821 • Acme Workspace — Acme')
+		})
+
+		it('should shorten override titles', () => {
+			const override = [{ level: OVERRIDE_LEVEL, title: 'Something went terribly wrong', short: 'Error' }]
+			expect(buildTitle(override, ' • ', { maxLength: 10 })).toBe('Error')
+		})
+
+		it('should throw for an invalid maxLength', () => {
+			expect(() => buildTitle(parts, ' • ', { maxLength: 0 })).toThrow('Invalid maxLength: 0. Must be a positive integer.')
+			expect(() => buildTitle(parts, ' • ', { maxLength: 1.5 })).toThrow('Invalid maxLength')
+		})
+
+		it('should keep short and priority on stored parts', () => {
+			setTitlePart(1, 'Organization Settings', { short: 'Settings', priority: 2 })
+			expect(get(titleParts)).toEqual([
+				{ level: 1, title: 'Organization Settings', short: 'Settings', priority: 2 }
+			])
+		})
+	})
+
+	describe('buildTitle direction', () => {
+		const parts = [
+			{ level: 0, title: 'App' },
+			{ level: 1, title: 'Settings' },
+			{ level: 2, title: 'Profile' }
+		]
+
+		it('should join from the root with general-first', () => {
+			expect(buildTitle(parts, ' • ', { direction: 'general-first' })).toBe('App • Settings • Profile')
+		})
+
+		it('should pass parts in display order to formatter functions', () => {
+			const format = (displayParts: { title: string }[]) => displayParts.map(p => p.title).join('/')
+			expect(buildTitle(parts, ' • ', { direction: 'general-first', format })).toBe('App/Settings/Profile')
+		})
+
+		it('should keep the root and leaf when shortening general-first titles', () => {
+			const long = [...parts, { level: 3, title: 'Notifications' }]
+			expect(buildTitle(long, ' • ', { direction: 'general-first', maxLength: 30 })).toBe('App • Profile • Notifications')
+		})
+
+		it('should throw for an unknown direction', () => {
+			// @ts-expect-error - testing invalid input
+			expect(() => buildTitle(parts, ' • ', { direction: 'rtl' })).toThrow('Invalid direction')
+		})
+	})
+
+	describe('buildTitle bidi', () => {
+		const FSI = '\u2068'
+		const PDI = '\u2069'
+		const mixed = [
+			{ level: 0, title: 'Acme' },
+			{ level: 1, title: 'הגדרות' }
+		]
+
+		it('should isolate parts when any contains right-to-left text', () => {
+			expect(buildTitle(mixed)).toBe(`${FSI}הגדרות${PDI} • ${FSI}Acme${PDI}`)
+		})
+
+		it('should leave left-to-right titles unchanged', () => {
+			expect(buildTitle([{ level: 0, title: 'App' }, { level: 1, title: 'Settings' }])).toBe('Settings • App')
+		})
+
+		it('should always or never isolate when asked', () => {
+			expect(buildTitle([{ level: 0, title: 'App' }], ' • ', { bidi: 'isolate' })).toBe(`${FSI}App${PDI}`)
+			expect(buildTitle(mixed, ' • ', { bidi: 'none' })).toBe('הגדרות • Acme')
+		})
+
+		it('should not count isolate marks towards maxLength', () => {
+			expect(buildTitle(mixed, ' • ', { maxLength: 13 })).toBe(`${FSI}הגדרות${PDI} • ${FSI}Acme${PDI}`)
+		})
+
+		it('should throw for an unknown bidi mode', () => {
+			// @ts-expect-error - testing invalid input
+			expect(() => buildTitle(mixed, ' • ', { bidi: 'always' })).toThrow('Invalid bidi')
+		})
+	})
+
+	describe('title badge', () => {
+		it('should prefix the title with the default badge format', () => {
+			expect(formatTitleBadge('Inbox • App', 3)).toBe('(3) Inbox • App')
+			expect(formatTitleBadge('Inbox • App', 'new')).toBe('(new) Inbox • App')
+		})
+
+		it('should leave the title unchanged without a badge', () => {
+			expect(formatTitleBadge('Inbox • App', null)).toBe('Inbox • App')
+			expect(formatTitleBadge('Inbox • App', 0)).toBe('Inbox • App')
+			expect(formatTitleBadge('Inbox • App', '')).toBe('Inbox • App')
+		})
+
+		it('should accept a custom badge format', () => {
+			expect(formatTitleBadge('Inbox', 3, '[%s] ')).toBe('[3] Inbox')
+			expect(formatTitleBadge('Inbox', 120, (badge) => `${Number(badge) > 99 ? '99+' : badge} · `)).toBe('99+ · Inbox')
+		})
+
+		it('should keep the badge outside the level hierarchy', () => {
+			const manager = createTitleManager()
+			manager.setTitlePart(0, 'App')
+			manager.setTitlePart(1, 'Inbox')
+			manager.setTitleBadge(3)
+
+			expect(get(manager.currentTitle)).toBe('(3) Inbox • App')
+
+			manager.setTitlePart(1, 'Archive')
+			expect(get(manager.currentTitle)).toBe('(3) Archive • App')
+
+			manager.setTitlePart(OVERRIDE_LEVEL, 'Compose')
+			expect(get(manager.currentTitle)).toBe('(3) Compose')
+			// buildTitle never includes the badge
+			expect(manager.buildTitle()).toBe('Compose')
+		})
+
+		it('should use the badge format from the title options', () => {
+			const manager = createTitleManager()
+			manager.setTitlePart(0, 'App')
+			manager.setTitleOptions({ badgeFormat: '%s new · ' })
+			manager.setTitleBadge(2)
+
+			expect(get(manager.currentTitle)).toBe('2 new · App')
+		})
+
+		it('should clear the badge with the title state', () => {
+			const manager = createTitleManager()
+			manager.setTitleBadge(5)
+			manager.clearTitleState()
+
+			expect(get(manager.titleBadge)).toBeNull()
+		})
+	})
+
+	describe('sibling titles', () => {
+		it('should keep the latest registration by default', () => {
+			const manager = createTitleManager()
+			const inbox = manager.registerTitle()
+			const drafts = manager.registerTitle()
+			inbox.set(1, 'Inbox')
+			drafts.set(1, 'Drafts')
+
+			expect(manager.buildTitle()).toBe('Drafts')
+		})
+
+		it('should never remove a sibling with another registration', () => {
+			const manager = createTitleManager()
+			const inbox = manager.registerTitle()
+			const drafts = manager.registerTitle()
+			inbox.set(1, 'Inbox')
+			drafts.set(1, 'Drafts')
+
+			drafts.remove()
+			expect(manager.buildTitle()).toBe('Inbox')
+
+			drafts.remove()
+			expect(manager.buildTitle()).toBe('Inbox')
+		})
+
+		it('should keep the earliest registration with first-wins', () => {
+			const manager = createTitleManager()
+			manager.setTitleOptions({ siblings: 'first-wins' })
+			manager.registerTitle().set(1, 'Inbox')
+			manager.registerTitle().set(1, 'Drafts')
+
+			expect(manager.buildTitle()).toBe('Inbox')
+		})
+
+		it('should join siblings with the sibling separator', () => {
+			const manager = createTitleManager()
+			manager.setTitlePart(0, 'Mail')
+			manager.registerTitle().set(1, 'Inbox')
+			manager.registerTitle().set(1, 'Drafts')
+
+			manager.setTitleOptions({ siblings: 'join' })
+			expect(manager.buildTitle()).toBe('Inbox, Drafts • Mail')
+
+			manager.setTitleOptions({ siblings: 'join', siblingSeparator: ' + ' })
+			expect(manager.buildTitle()).toBe('Inbox + Drafts • Mail')
+		})
+
+		it('should move a registration when its level changes', () => {
+			const manager = createTitleManager()
+			const registration = manager.registerTitle()
+			registration.set(1, 'Page')
+			registration.set(OVERRIDE_LEVEL, 'Page')
+
+			expect(get(manager.titleParts)).toEqual([{ level: OVERRIDE_LEVEL, title: 'Page' }])
+		})
+
+		it('should share one registration between setTitlePart calls for a level', () => {
+			const manager = createTitleManager()
+			manager.setTitleOptions({ siblings: 'join' })
+			manager.setTitlePart(1, 'Inbox')
+			manager.setTitlePart(1, 'Drafts')
+
+			expect(manager.buildTitle()).toBe('Drafts')
+		})
+
+		it('should remove every sibling with removeTitlePart', () => {
+			const manager = createTitleManager()
+			manager.registerTitle().set(1, 'Inbox')
+			manager.registerTitle().set(1, 'Drafts')
+
+			manager.removeTitlePart(1)
+			expect(manager.buildTitle()).toBe('')
+		})
+
+		it('should warn about collisions without a sibling policy', () => {
+			const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+			const manager = createTitleManager()
+			manager.registerTitle().set(1, 'Inbox')
+			manager.registerTitle().set(1, 'Drafts')
+
+			expect(warn).toHaveBeenCalledWith(expect.stringContaining('"Inbox" and "Drafts" are both registered at level 1'))
+
+			warn.mockClear()
+			manager.setTitleOptions({ siblings: 'last-wins' })
+			manager.registerTitle().set(1, 'Sent')
+			expect(warn).not.toHaveBeenCalled()
+			warn.mockRestore()
+		})
+
+		it('should join short texts, keep the highest priority and the first href', () => {
+			const parts = [
+				{ level: 1, title: 'Organization Settings', short: 'Settings', priority: 1 },
+				{ level: 1, title: 'Billing', priority: 3, href: '/billing' },
+				{ level: 0, title: 'App' }
+			]
+			expect(mergeTitleSiblings(parts, { siblings: 'join', siblingSeparator: ' & ' })).toEqual([
+				{ level: 1, title: 'Organization Settings & Billing', short: 'Settings & Billing', priority: 3, href: '/billing' },
+				{ level: 0, title: 'App' }
+			])
+		})
+
+		it('should throw for invalid sibling options', () => {
+			const manager = createTitleManager()
+			// @ts-expect-error - testing invalid input
+			expect(() => manager.setTitleOptions({ siblings: 'merge' })).toThrow('Invalid siblings')
+			expect(() => manager.setTitleOptions({ siblingSeparator: '' })).toThrow('Invalid siblingSeparator')
+		})
+	})
+
+	describe('override stack', () => {
+		it('should reveal the previous override when the top one is removed', () => {
+			const manager = createTitleManager()
+			manager.setTitlePart(0, 'App')
+			const page = manager.registerTitle()
+			const modal = manager.registerTitle()
+			page.set(OVERRIDE_LEVEL, 'Not found')
+			modal.set(OVERRIDE_LEVEL, 'Delete project?')
+
+			expect(manager.buildTitle()).toBe('Delete project?')
+
+			modal.remove()
+			expect(manager.buildTitle()).toBe('Not found')
+
+			page.remove()
+			expect(manager.buildTitle()).toBe('App')
+		})
+
+		it('should show the highest priority override', () => {
+			const manager = createTitleManager()
+			const error = manager.pushTitle('Connection lost', { priority: 10 })
+			const dialog = manager.pushTitle('Rename file')
+
+			expect(manager.buildTitle()).toBe('Connection lost')
+
+			error.pop()
+			expect(manager.buildTitle()).toBe('Rename file')
+
+			dialog.pop()
+			expect(manager.buildTitle()).toBe('')
+		})
+
+		it('should show the latest override that joined the stack', () => {
+			const manager = createTitleManager()
+			const page = manager.registerTitle()
+			page.set(1, 'Wizard')
+			manager.pushTitle('Step 1')
+			page.set(OVERRIDE_LEVEL, 'Wizard')
+
+			expect(manager.buildTitle()).toBe('Wizard')
+		})
+
+		it('should update a pushed override in place', () => {
+			const manager = createTitleManager()
+			const first = manager.pushTitle('Unsaved changes')
+			manager.pushTitle('Saving')
+			first.update('Unsaved changes (2)', { priority: 1 })
+
+			expect(manager.buildTitle()).toBe('Unsaved changes (2)')
+
+			first.pop()
+			first.pop()
+			expect(manager.buildTitle()).toBe('Saving')
+		})
+
+		it('should ignore the sibling policy and not warn for overrides', () => {
+			const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+			const manager = createTitleManager()
+			manager.setTitleOptions({ siblings: 'join' })
+			manager.pushTitle('Not found')
+			manager.pushTitle('Delete project?')
+
+			expect(manager.buildTitle()).toBe('Delete project?')
+			manager.setTitleOptions({})
+			manager.pushTitle('Settings')
+			expect(warn).not.toHaveBeenCalled()
+			warn.mockRestore()
+		})
+
+		it('should pick overrides by priority in mergeTitleSiblings', () => {
+			const parts = [
+				{ level: OVERRIDE_LEVEL, title: 'Error', priority: 2 },
+				{ level: OVERRIDE_LEVEL, title: 'Dialog', priority: 1 },
+				{ level: OVERRIDE_LEVEL, title: 'Alert', priority: 2 }
+			]
+			expect(mergeTitleSiblings(parts, { siblings: 'first-wins' })).toEqual([
+				{ level: OVERRIDE_LEVEL, title: 'Alert', priority: 2 }
+			])
+		})
+	})
+
+	describe('data titles', () => {
+		it('should fill levels from data titles', () => {
+			const manager = createTitleManager()
+			manager.setTitlePart(0, 'App')
+			manager.setDataTitles(['Settings', 'Billing'], 1)
+
+			expect(manager.buildTitle()).toBe('Billing • Settings • App')
+		})
+
+		it('should let Title parts at the same level win', () => {
+			const manager = createTitleManager()
+			manager.setDataTitles(['Settings', 'Billing'], 1)
+			manager.setTitlePart(2, 'Invoices')
+
+			expect(manager.buildTitle()).toBe('Invoices • Settings')
+
+			manager.removeTitlePart(2)
+			expect(manager.buildTitle()).toBe('Billing • Settings')
+		})
+
+		it('should assign automatic levels after data levels', () => {
+			const manager = createTitleManager()
+			manager.setDataTitles(['Settings', ''], 1)
+
+			expect(manager.getNextLevel()).toBe(0)
+			expect(manager.getNextLevel()).toBe(3)
+		})
+
+		it('should skip empty data titles', () => {
+			const manager = createTitleManager()
+			manager.setDataTitles(['App', '', 'Invoice'])
+
+			expect(get(manager.titleParts)).toEqual([
+				{ level: 0, title: 'App' },
+				{ level: 2, title: 'Invoice' }
+			])
+		})
+
+		it('should replace earlier data titles', () => {
+			const manager = createTitleManager()
+			manager.setDataTitles(['App', 'Settings', 'Billing'])
+			manager.setDataTitles(['App', 'Profile'])
+
+			expect(manager.buildTitle()).toBe('Profile • App')
+
+			manager.clearTitleState()
+			expect(manager.buildTitle()).toBe('')
+		})
+	})
+
+	describe('title translator', () => {
+		const messages: Record<string, Record<string, string>> = {
+			en: { 'app.name': 'Acme', 'nav.settings': 'Settings', 'nav.user': 'Profile of {name}', separator: ' | ', format: '%s (EN)' },
+			de: { 'app.name': 'Acme', 'nav.settings': 'Einstellungen', 'nav.user': 'Profil von {name}', separator: ' – ', format: '%s (DE)' }
+		}
+		const translatorFor = (locale: string) => (message: string, params: Record<string, unknown> = {}) =>
+			(messages[locale][message] ?? message).replace(/\{(\w+)\}/g, (_, name) => String(params[name]))
+
+		it('should translate message parts', () => {
+			const manager = createTitleManager()
+			manager.setTitleTranslator(translatorFor('en'))
+			manager.setTitlePart(0, 'Acme', { message: 'app.name' })
+			manager.setTitlePart(1, 'nav.user', { message: 'nav.user', params: { name: 'Sam' } })
+
+			expect(manager.buildTitle()).toBe('Profile of Sam • Acme')
+			expect(get(manager.titleParts)[1]).toMatchObject({ title: 'Profile of Sam', message: 'nav.user' })
+		})
+
+		it('should fall back to the title without a translator', () => {
+			const manager = createTitleManager()
+			manager.setTitlePart(0, 'Settings', { message: 'nav.settings' })
+
+			expect(manager.buildTitle()).toBe('Settings')
+			expect(manager.translateTitle('nav.settings')).toBeUndefined()
+		})
+
+		it('should translate the separator and format messages', () => {
+			const manager = createTitleManager()
+			manager.setTitleTranslator(translatorFor('de'))
+			manager.setTitleOptions({ separatorMessage: 'separator', formatMessage: 'format' })
+			manager.setTitlePart(0, 'Acme', { message: 'app.name' })
+			manager.setTitlePart(1, 'Settings', { message: 'nav.settings' })
+
+			expect(get(manager.currentTitle)).toBe('Einstellungen – Acme (DE)')
+		})
+
+		it('should switch locales in a single update', () => {
+			const manager = createTitleManager()
+			const translator = writable(translatorFor('en'))
+			manager.setTitleTranslator(translator)
+			manager.setTitleOptions({ separatorMessage: 'separator' })
+			manager.setTitlePart(0, 'Acme', { message: 'app.name' })
+			manager.setTitlePart(1, 'Settings', { message: 'nav.settings' })
+
+			const titles: string[] = []
+			const unsubscribe = manager.currentTitle.subscribe(title => titles.push(title))
+			translator.set(translatorFor('de'))
+			unsubscribe()
+
+			expect(titles).toEqual(['Settings | Acme', 'Einstellungen – Acme'])
+		})
+
+		it('should stop following a translator store once replaced', () => {
+			const manager = createTitleManager()
+			const translator = writable(translatorFor('en'))
+			manager.setTitleTranslator(translator)
+			manager.setTitlePart(0, 'Settings', { message: 'nav.settings' })
+			manager.setTitleTranslator(null)
+
+			translator.set(translatorFor('de'))
+			expect(manager.buildTitle()).toBe('Settings')
+		})
+
+		it('should remove the translator with clearTitleState', () => {
+			const manager = createTitleManager()
+			manager.setTitleTranslator(translatorFor('de'))
+			manager.clearTitleState()
+
+			expect(manager.translateTitle('nav.settings')).toBeUndefined()
+		})
+	})
+
+	describe('flashTitle', () => {
+		let fakeDocument: EventTarget & { hidden: boolean }
+
+		function setHidden(hidden: boolean) {
+			fakeDocument.hidden = hidden
+			fakeDocument.dispatchEvent(new Event('visibilitychange'))
+		}
+
+		beforeEach(() => {
+			vi.useFakeTimers()
+			fakeDocument = Object.assign(new EventTarget(), { hidden: true })
+			vi.stubGlobal('document', fakeDocument)
+		})
+
+		afterEach(() => {
+			vi.useRealTimers()
+			vi.unstubAllGlobals()
+		})
+
+		async function createInbox() {
+			const manager = createTitleManager()
+			manager.setTitlePart(0, 'App')
+			manager.setTitlePart(1, 'Inbox')
+			manager.setTitleBadge(2)
+			// With a document, parts are committed in a microtask
+			await Promise.resolve()
+			return manager
+		}
+
+		it('should alternate between the text and the normal title', async () => {
+			const manager = await createInbox()
+			manager.flashTitle('New message from Sam', { interval: 500 })
+
+			expect(get(manager.currentTitle)).toBe('New message from Sam')
+			vi.advanceTimersByTime(500)
+			expect(get(manager.currentTitle)).toBe('(2) Inbox • App')
+			vi.advanceTimersByTime(500)
+			expect(get(manager.currentTitle)).toBe('New message from Sam')
+		})
+
+		it('should restore the normal title when the tab becomes visible', async () => {
+			const manager = await createInbox()
+			manager.flashTitle('New message from Sam')
+
+			setHidden(false)
+
+			expect(get(manager.currentTitle)).toBe('(2) Inbox • App')
+			vi.advanceTimersByTime(5000)
+			expect(get(manager.currentTitle)).toBe('(2) Inbox • App')
+		})
+
+		it('should keep following title changes while flashing', async () => {
+			const manager = await createInbox()
+			manager.flashTitle('Done', { interval: 100 })
+
+			manager.setTitlePart(1, 'Archive')
+			await vi.advanceTimersByTimeAsync(100)
+
+			expect(get(manager.currentTitle)).toBe('(2) Archive • App')
+		})
+
+		it('should stop after a number of milliseconds', async () => {
+			const manager = await createInbox()
+			manager.flashTitle('Export ready', { interval: 100, until: 1000 })
+
+			vi.advanceTimersByTime(1000)
+
+			expect(get(manager.titleAttention)).toBeNull()
+			setHidden(false)
+			vi.advanceTimersByTime(1000)
+			expect(get(manager.currentTitle)).toBe('(2) Inbox • App')
+		})
+
+		it('should stop with the returned function and stopFlashTitle', async () => {
+			const manager = await createInbox()
+			const stop = manager.flashTitle('Hello')
+			stop()
+			expect(get(manager.titleAttention)).toBeNull()
+
+			manager.flashTitle('Again')
+			manager.stopFlashTitle()
+			expect(get(manager.titleAttention)).toBeNull()
+			expect(vi.getTimerCount()).toBe(0)
+		})
+
+		it('should replace a running flash', async () => {
+			const manager = await createInbox()
+			const stopFirst = manager.flashTitle('First')
+			manager.flashTitle('Second')
+
+			expect(get(manager.currentTitle)).toBe('Second')
+			// A stale stop function must not stop the newer flash
+			stopFirst()
+			expect(get(manager.currentTitle)).toBe('Second')
+			expect(vi.getTimerCount()).toBe(1)
+		})
+
+		it('should do nothing while the tab is visible', async () => {
+			const manager = await createInbox()
+			fakeDocument.hidden = false
+
+			manager.flashTitle('Hello')
+
+			expect(get(manager.titleAttention)).toBeNull()
+			expect(vi.getTimerCount()).toBe(0)
+		})
+
+		it('should throw for an invalid interval', async () => {
+			const manager = await createInbox()
+			expect(() => manager.flashTitle('Hello', { interval: 0 })).toThrow('Invalid interval: 0. Must be a positive number of milliseconds.')
+		})
+	})
+
+	describe('commits', () => {
+		afterEach(() => {
+			vi.unstubAllGlobals()
+		})
+
+		it('should commit part changes of one task together in the browser', async () => {
+			vi.stubGlobal('document', {})
+			const manager = createTitleManager()
+			manager.setTitlePart(0, 'App')
+			manager.setTitlePart(1, 'Inbox')
+			await Promise.resolve()
+
+			const titles: string[] = []
+			manager.currentTitle.subscribe(title => titles.push(title))
+			manager.removeTitlePart(1)
+			manager.setTitlePart(1, 'Drafts')
+			expect(get(manager.titleParts)).toEqual([{ level: 0, title: 'App' }, { level: 1, title: 'Inbox' }])
+
+			await Promise.resolve()
+			expect(titles).toEqual(['Inbox • App', 'Drafts • App'])
+		})
+
+		it('should apply options together with the parts they affect', async () => {
+			vi.stubGlobal('document', {})
+			const manager = createTitleManager()
+			manager.setTitleOptions({ siblings: 'join' })
+			manager.registerTitle().set(1, 'Inbox')
+			manager.registerTitle().set(1, 'Drafts')
+			expect(get(manager.titleOptions)).toEqual({})
+
+			await Promise.resolve()
+			expect(get(manager.titleOptions)).toEqual({ siblings: 'join' })
+			expect(manager.buildTitle()).toBe('Inbox, Drafts')
+		})
+
+		it('should hold changes until every hold is released', () => {
+			const manager = createTitleManager()
+			manager.setTitlePart(0, 'App')
+			manager.setTitlePart(1, 'Inbox')
+
+			const releaseNavigation = manager.holdTitle()
+			const releaseDialog = manager.holdTitle()
+			manager.removeTitlePart(1)
+			manager.setTitlePart(1, 'Drafts')
+			expect(manager.buildTitle()).toBe('Inbox • App')
+
+			releaseNavigation()
+			releaseNavigation()
+			expect(manager.buildTitle()).toBe('Inbox • App')
+
+			releaseDialog()
+			expect(manager.buildTitle()).toBe('Drafts • App')
+		})
+
+		it('should drop holds when the state is cleared', () => {
+			const manager = createTitleManager()
+			manager.holdTitle()
+			manager.clearTitleState()
+
+			manager.setTitlePart(0, 'App')
+			expect(manager.buildTitle()).toBe('App')
+		})
+	})
+
+	describe('inspection', () => {
+		afterEach(() => {
+			vi.unstubAllGlobals()
+		})
+
+		it('should list every registered part with its source and override status', () => {
+			const manager = createTitleManager()
+			manager.registerTitle('/src/routes/+layout.svelte').set(0, 'App')
+			manager.registerTitle('/src/routes/inbox/+page.svelte').set(1, 'Inbox')
+			manager.registerTitle('/src/routes/inbox/Drafts.svelte').set(1, 'Drafts')
+			manager.pushTitle('Saving…', { priority: 2 })
+			manager.setDataTitles(['Mail'], 2)
+
+			expect(manager.inspectTitle().parts).toEqual([
+				{ level: OVERRIDE_LEVEL, title: 'Saving…', priority: 2, override: true, data: false },
+				{ level: 0, title: 'App', source: '/src/routes/+layout.svelte', override: false, data: false },
+				{ level: 1, title: 'Inbox', source: '/src/routes/inbox/+page.svelte', override: false, data: false },
+				{ level: 1, title: 'Drafts', source: '/src/routes/inbox/Drafts.svelte', override: false, data: false },
+				{ level: 2, title: 'Mail', override: false, data: true }
+			])
+		})
+
+		it('should report the separator and the level counter', () => {
+			const manager = createTitleManager()
+			manager.setSeparator(' | ')
+			manager.setTitlePart(1, 'Settings')
+			manager.getNextLevel()
+			manager.getNextLevel()
+
+			const { separator, counter } = manager.inspectTitle()
+			expect(separator).toBe(' | ')
+			// Level 1 was taken, so the counter skipped it
+			expect(counter).toBe(3)
+		})
+
+		it('should record set and remove calls in the browser', () => {
+			vi.stubGlobal('document', {})
+			vi.stubGlobal('location', { pathname: '/inbox' })
+			const manager = createTitleManager()
+			const registration = manager.registerTitle('/src/routes/inbox/+page.svelte')
+			registration.set(1, 'Inbox')
+			manager.setTitlePart(0, 'App')
+			registration.remove()
+			manager.removeTitlePart(0)
+
+			expect(get(manager.titleTimeline)).toEqual([
+				{ action: 'set', level: 1, title: 'Inbox', source: '/src/routes/inbox/+page.svelte', pathname: '/inbox', timestamp: expect.any(Number) },
+				{ action: 'set', level: 0, title: 'App', pathname: '/inbox', timestamp: expect.any(Number) },
+				{ action: 'remove', level: 1, title: 'Inbox', source: '/src/routes/inbox/+page.svelte', pathname: '/inbox', timestamp: expect.any(Number) },
+				{ action: 'remove', level: 0, title: 'App', pathname: '/inbox', timestamp: expect.any(Number) }
+			])
+		})
+
+		it('should keep the last 100 calls', () => {
+			vi.stubGlobal('document', {})
+			vi.stubGlobal('location', { pathname: '/' })
+			const manager = createTitleManager()
+			for (let i = 0; i < TITLE_TIMELINE_SIZE + 5; i++) {
+				manager.setTitlePart(0, `Title ${i}`)
+			}
+
+			const timeline = get(manager.titleTimeline)
+			expect(timeline).toHaveLength(TITLE_TIMELINE_SIZE)
+			expect(timeline[0].title).toBe('Title 5')
+		})
+
+		it('should not record calls on the server', () => {
+			const manager = createTitleManager()
+			manager.setTitlePart(0, 'App')
+
+			expect(get(manager.titleTimeline)).toEqual([])
+		})
+
+		it('should clear the timeline and sources with the state', () => {
+			vi.stubGlobal('document', {})
+			vi.stubGlobal('location', { pathname: '/' })
+			const manager = createTitleManager()
+			manager.registerTitle('/src/routes/+layout.svelte').set(0, 'App')
+			manager.clearTitleState()
+
+			expect(get(manager.titleTimeline)).toEqual([])
+			expect(manager.inspectTitle().parts).toEqual([])
+		})
+	})
+
+	describe('level diagnostics', () => {
+		let warn: ReturnType<typeof vi.spyOn>
+
+		beforeEach(() => {
+			vi.stubGlobal('document', {})
+			warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+		})
+
+		afterEach(() => {
+			warn.mockRestore()
+			vi.unstubAllGlobals()
+		})
+
+		it('should warn about empty levels below the highest one', async () => {
+			const manager = createTitleManager()
+			manager.setTitlePart(0, 'App')
+			manager.setTitlePart(3, 'Billing')
+			await Promise.resolve()
+
+			expect(warn).toHaveBeenCalledOnce()
+			expect(warn).toHaveBeenCalledWith(expect.stringContaining('svelte-title(level_gap): Levels 1, 2 have no title, though "Billing" is at level 3.'))
+		})
+
+		it('should blame the level counter for render-order titles above a gap', async () => {
+			const manager = createTitleManager()
+			manager.registerTitle().set(manager.getNextLevel(), 'App')
+			const page = manager.registerTitle()
+			page.set(manager.getNextLevel(), 'Inbox')
+			await Promise.resolve()
+
+			// Navigation without resetLevelCounter()
+			page.remove()
+			manager.registerTitle().set(manager.getNextLevel(), 'Drafts')
+			await Promise.resolve()
+
+			expect(warn).toHaveBeenCalledOnce()
+			expect(warn).toHaveBeenCalledWith(expect.stringContaining('svelte-title(level_counter_not_reset): "Drafts" got level 2 from render order, but level 1 is empty'))
+		})
+
+		it('should not warn after resetLevelCounter', async () => {
+			const manager = createTitleManager()
+			manager.registerTitle().set(manager.getNextLevel(), 'App')
+			const page = manager.registerTitle()
+			page.set(manager.getNextLevel(), 'Inbox')
+			await Promise.resolve()
+
+			page.remove()
+			manager.resetLevelCounter()
+			manager.registerTitle().set(manager.getNextLevel(), 'Drafts')
+			await Promise.resolve()
+
+			expect(warn).not.toHaveBeenCalled()
+		})
+
+		it('should not warn when the page takes its level before the reset', async () => {
+			const manager = createTitleManager()
+			manager.registerTitle().set(manager.getNextLevel(), 'App')
+			let page = manager.registerTitle()
+			page.set(manager.getNextLevel(), 'Inbox')
+			manager.resetLevelCounter()
+			await Promise.resolve()
+
+			// The new page mounts before the root layout's reset effect runs
+			for (const title of ['Drafts', 'Sent']) {
+				page.remove()
+				page = manager.registerTitle()
+				page.set(manager.getNextLevel(), title)
+				manager.resetLevelCounter()
+				await Promise.resolve()
+			}
+
+			expect(manager.inspectTitle().parts.map(part => part.level)).toEqual([0, 3])
+			expect(warn).not.toHaveBeenCalled()
+
+			manager.setTitlePart(5, 'Archive')
+			await Promise.resolve()
+
+			expect(warn).toHaveBeenCalledWith(expect.stringContaining('svelte-title(level_gap): Level 4 has no title, though "Archive" is at level 5.'))
+		})
+
+		it('should count data titles and ignore overrides', async () => {
+			const manager = createTitleManager()
+			manager.setTitlePart(0, 'App')
+			manager.setDataTitles(['Settings'], 1)
+			manager.setTitlePart(2, 'Billing')
+			manager.pushTitle('Saving…')
+			await Promise.resolve()
+
+			expect(warn).not.toHaveBeenCalled()
+		})
+
+		it('should not check levels on the server', () => {
+			vi.unstubAllGlobals()
+			const manager = createTitleManager()
+			manager.setTitlePart(2, 'Billing')
+
+			expect(warn).not.toHaveBeenCalled()
+		})
+	})
+
+	describe('title sinks', () => {
+		it('should start with the document title sink', () => {
+			const manager = createTitleManager()
+
+			expect(writesDocumentTitle(get(manager.titleSinks))).toBe(true)
+		})
+
+		it('should restore the document title sink with null and on clear', () => {
+			const manager = createTitleManager()
+			const sinks = [customSink(() => {})]
+
+			manager.setTitleSinks(sinks)
+			expect(get(manager.titleSinks)).toBe(sinks)
+
+			manager.setTitleSinks(null)
+			expect(writesDocumentTitle(get(manager.titleSinks))).toBe(true)
+
+			manager.setTitleSinks(sinks)
+			manager.clearTitleState()
+			expect(writesDocumentTitle(get(manager.titleSinks))).toBe(true)
+		})
+	})
+
+	describe('title changes', () => {
+		beforeEach(() => {
+			vi.useFakeTimers()
+		})
+
+		afterEach(() => {
+			vi.useRealTimers()
+			vi.unstubAllGlobals()
+		})
+
+		it('should report the built title once per task', () => {
+			const manager = createTitleManager()
+			const listener = vi.fn()
+			manager.onTitleChange(listener)
+
+			manager.setTitlePart(0, 'App')
+			manager.setTitlePart(1, 'Inbox')
+			manager.setTitleBadge(3)
+			vi.runAllTimers()
+
+			expect(listener).toHaveBeenCalledTimes(1)
+			expect(listener).toHaveBeenCalledWith('Inbox • App', '', { pathname: null, timestamp: expect.any(Number) })
+		})
+
+		it('should report the previous title and skip unchanged or empty ones', () => {
+			const manager = createTitleManager()
+			manager.setTitlePart(0, 'App')
+			manager.setTitlePart(1, 'Inbox')
+			const listener = vi.fn()
+			manager.onTitleChange(listener)
+			vi.runAllTimers()
+
+			// A navigation removes the old page before adding the new one
+			manager.removeTitlePart(1)
+			manager.setTitlePart(1, 'Inbox')
+			vi.runAllTimers()
+			manager.removeTitlePart(1)
+			manager.setTitlePart(1, 'Drafts')
+			vi.runAllTimers()
+			manager.removeTitlePart(0)
+			manager.removeTitlePart(1)
+			vi.runAllTimers()
+
+			expect(listener.mock.calls.map(([next, prev]) => [next, prev])).toEqual([
+				['Inbox • App', ''],
+				['Drafts • App', 'Inbox • App']
+			])
+		})
+
+		it('should include the pathname in the browser', async () => {
+			vi.stubGlobal('document', {})
+			vi.stubGlobal('location', { pathname: '/inbox' })
+			const manager = createTitleManager()
+			const listener = vi.fn()
+			manager.onTitleChange(listener)
+
+			manager.setTitlePart(0, 'Inbox')
+			await vi.runAllTimersAsync()
+
+			expect(listener).toHaveBeenCalledWith('Inbox', '', expect.objectContaining({ pathname: '/inbox' }))
+		})
+
+		it('should stop calling a listener after unsubscribing', () => {
+			const manager = createTitleManager()
+			const listener = vi.fn()
+			const unsubscribe = manager.onTitleChange(listener)
+			unsubscribe()
+
+			manager.setTitlePart(0, 'App')
+			vi.runAllTimers()
+
+			expect(listener).not.toHaveBeenCalled()
+		})
+
+		it('should keep a bounded history', () => {
+			const manager = createTitleManager({ historySize: 2 })
+			const history = vi.fn()
+			manager.titleHistory.subscribe(history)
+
+			for (const page of ['Inbox', 'Drafts', 'Sent']) {
+				manager.setTitlePart(0, page)
+				vi.runAllTimers()
+			}
+
+			expect(get(manager.titleHistory).map(entry => entry.title)).toEqual(['Drafts', 'Sent'])
+
+			manager.clearTitleState()
+			expect(get(manager.titleHistory)).toEqual([])
+		})
+
+		it('should throw for an invalid history size', () => {
+			expect(() => createTitleManager({ historySize: 0 })).toThrow('Invalid historySize')
+			expect(() => createTitleManager({ historySize: 1.5 })).toThrow('Invalid historySize')
+		})
+	})
+
+	describe('getLeafTitle', () => {
+		it('should return the highest level title', () => {
+			const parts = [
+				{ level: 1, title: 'Section' },
+				{ level: 2, title: 'Page' },
+				{ level: 0, title: 'Root' }
+			]
+			expect(getLeafTitle(parts)).toBe('Page')
+		})
+
+		it('should prefer the override title', () => {
+			const parts = [
+				{ level: 0, title: 'Root' },
+				{ level: OVERRIDE_LEVEL, title: 'Override' }
+			]
+			expect(getLeafTitle(parts)).toBe('Override')
+		})
+
+		it('should return an empty string for no parts', () => {
+			expect(getLeafTitle([])).toBe('')
+		})
+	})
+
+	describe('breadcrumbs', () => {
+		it('should order breadcrumbs from root to leaf', () => {
+			const parts = [
+				{ level: 2, title: 'Billing' },
+				{ level: 0, title: 'App', href: '/' },
+				{ level: 1, title: 'Settings', href: '/settings', short: 'Set' }
+			]
+			expect(getBreadcrumbs(parts)).toEqual([
+				{ level: 0, title: 'App', href: '/' },
+				{ level: 1, title: 'Settings', href: '/settings' },
+				{ level: 2, title: 'Billing' }
+			])
+		})
+
+		it('should only contain the override part in override mode', () => {
+			const parts = [
+				{ level: 0, title: 'App' },
+				{ level: OVERRIDE_LEVEL, title: 'Not Found' }
+			]
+			expect(getBreadcrumbs(parts)).toEqual([{ level: OVERRIDE_LEVEL, title: 'Not Found' }])
+		})
+
+		it('should skip empty titles', () => {
+			expect(getBreadcrumbs([{ level: 0, title: 'App' }, { level: 1, title: '' }])).toEqual([
+				{ level: 0, title: 'App' }
+			])
+		})
+
+		it('should follow the manager title parts', () => {
+			const manager = createTitleManager()
+			manager.setTitlePart(0, 'App')
+			manager.setTitlePart(1, 'Settings', { href: '/settings' })
+
+			expect(get(manager.breadcrumbs)).toEqual([
+				{ level: 0, title: 'App' },
+				{ level: 1, title: 'Settings', href: '/settings' }
+			])
+
+			manager.removeTitlePart(1)
+			expect(get(manager.breadcrumbs)).toEqual([{ level: 0, title: 'App' }])
+		})
+
+		it('should default hrefs to the path prefix of each level', () => {
+			const crumbs = [
+				{ level: 0, title: 'App' },
+				{ level: 1, title: 'Settings' },
+				{ level: 2, title: 'Billing' }
+			]
+			expect(resolveBreadcrumbHrefs(crumbs, '/settings/billing/invoices').map(c => c.href)).toEqual([
+				'/',
+				'/settings',
+				'/settings/billing/invoices'
+			])
+		})
+
+		it('should keep explicit hrefs', () => {
+			const crumbs = [
+				{ level: 0, title: 'App', href: '/home' },
+				{ level: 1, title: 'Settings', href: '/settings/general' }
+			]
+			expect(resolveBreadcrumbHrefs(crumbs, '/settings').map(c => c.href)).toEqual(['/home', '/settings/general'])
+		})
+	})
+
 	describe('setSeparator', () => {
 		it('should update separator store', () => {
 			setSeparator(' / ')
@@ -163,4 +1272,45 @@ describe('Title Store', () => {
 			expect(buildTitle(parts, ' 🔹 ')).toBe('Page 🔹 Root')
 		})
 	})
-})
\ No newline at end of file
+
+	describe('createTitleManager', () => {
+		it('should keep state isolated between managers', () => {
+			const a = createTitleManager()
+			const b = createTitleManager()
+
+			a.setTitlePart(0, 'App A')
+			a.setSeparator(' | ')
+			b.setTitlePart(0, 'App B')
+
+			expect(get(a.titleParts)).toEqual([{ level: 0, title: 'App A' }])
+			expect(get(b.titleParts)).toEqual([{ level: 0, title: 'App B' }])
+			expect(get(b.titleSeparator)).toBe(' • ')
+		})
+
+		it('should not touch the default manager', () => {
+			const manager = createTitleManager()
+			manager.setTitlePart(0, 'Scoped')
+
+			expect(get(titleParts)).toEqual([])
+		})
+
+		it('should keep an independent level counter', () => {
+			const a = createTitleManager()
+			const b = createTitleManager()
+
+			expect(a.getNextLevel()).toBe(0)
+			expect(a.getNextLevel()).toBe(1)
+			expect(b.getNextLevel()).toBe(0)
+		})
+
+		it('should build the title from its own parts and separator', () => {
+			const manager = createTitleManager()
+			manager.setSeparator(' | ')
+			manager.setTitlePart(0, 'Root')
+			manager.setTitlePart(1, 'Page')
+
+			expect(manager.buildTitle()).toBe('Page | Root')
+			expect(manager.buildTitle([{ level: 0, title: 'Other' }], ' - ')).toBe('Other')
+		})
+	})
+})
@@ -0,0 +1,84 @@
+import { describe, expect, it, beforeEach } from 'vitest'
+import Title from '../src/lib/components/Title.svelte'
+import NestedTitles from './fixtures/NestedTitles.svelte'
+import UseTitlePage from './fixtures/UseTitlePage.svelte'
+import {
+	expectTitle,
+	flushTitles,
+	getCurrentTitle,
+	renderWithTitles,
+	resetTitles,
+	titleMatchers,
+	titleTest
+} from '../src/lib/testing.js'
+import { defaultTitleManager } from '../src/lib/stores/title.js'
+
+expect.extend(titleMatchers)
+
+describe('testing utilities in the browser', () => {
+	beforeEach(() => {
+		resetTitles()
+	})
+
+	it('should resolve once document.title is up to date', async () => {
+		const result = await renderWithTitles(NestedTitles)
+
+		expect(result.title).toBe('Billing • Settings • App')
+		expect(document.title).toBe('Billing • Settings • App')
+		expectTitle('Billing • Settings • App')
+	})
+
+	it('should render runes titles', async () => {
+		const result = await renderWithTitles(UseTitlePage, { props: { page: 'Invoices' } })
+
+		expect(result).toHaveTitle('Invoices • App')
+	})
+
+	it('should apply the route URL to the location', async () => {
+		await renderWithTitles(NestedTitles, { route: '/settings/billing?tab=plans' })
+
+		expect(location.pathname).toBe('/settings/billing')
+		expect(location.search).toBe('?tab=plans')
+	})
+
+	it('should wait for later changes with flushTitles', async () => {
+		await renderWithTitles(Title, { props: { title: 'App' } })
+
+		defaultTitleManager.pushTitle('Saving…')
+		await flushTitles()
+
+		expect(getCurrentTitle()).toBe('Saving…')
+	})
+
+	it('should remove the component on unmount', async () => {
+		const childCount = document.body.childElementCount
+		const result = await renderWithTitles(NestedTitles)
+
+		result.unmount()
+
+		expect(document.body.childElementCount).toBe(childCount)
+	})
+
+	it('should remove rendered components and clear the title with resetTitles', async () => {
+		const childCount = document.body.childElementCount
+		await renderWithTitles(NestedTitles)
+		await renderWithTitles(UseTitlePage)
+
+		resetTitles()
+
+		expect(document.body.childElementCount).toBe(childCount)
+		expect(getCurrentTitle()).toBe('')
+	})
+})
+
+describe('titleTest in the browser', () => {
+	titleTest('should render a title', async () => {
+		await renderWithTitles(NestedTitles)
+
+		expectTitle(/App$/)
+	})
+
+	titleTest('should start with an empty title', () => {
+		expect(document.title).toBe('')
+	})
+})
@@ -0,0 +1,167 @@
+import { describe, expect, it, beforeEach, vi } from 'vitest'
+import { get } from 'svelte/store'
+import Title from '../src/lib/components/Title.svelte'
+import NestedTitles from './fixtures/NestedTitles.svelte'
+import TitlesWithBreadcrumbs from './fixtures/TitlesWithBreadcrumbs.svelte'
+import {
+	expectTitle,
+	getCurrentTitle,
+	renderWithTitles,
+	resetTitles,
+	titleMatchers,
+	titleTest
+} from '../src/lib/testing.js'
+import { createTitleManager, defaultTitleManager } from '../src/lib/stores/title.js'
+
+vi.mock('$app/state', () => ({ page: {} }))
+
+expect.extend(titleMatchers)
+
+describe('testing utilities', () => {
+	beforeEach(() => {
+		resetTitles()
+	})
+
+	describe('renderWithTitles', () => {
+		it('should return the cascaded title the handle writes', async () => {
+			const result = await renderWithTitles(NestedTitles)
+
+			expect(result.title).toBe('Billing • Settings • App')
+			expect(result.head).toContain('<title>Billing • Settings • App</title>')
+			expect(result.head).not.toContain('svelte-title:')
+		})
+
+		it('should pass props to the component', async () => {
+			const result = await renderWithTitles(NestedTitles, { props: { page: 'Invoices' } })
+
+			expect(result.title).toBe('Invoices • Settings • App')
+		})
+
+		it('should apply handle options', async () => {
+			const result = await renderWithTitles(NestedTitles, { handle: { direction: 'general-first' } })
+
+			expect(result.title).toBe('App • Settings • Billing')
+		})
+
+		it('should keep the raw head without markers with handle: false', async () => {
+			const result = await renderWithTitles(NestedTitles, { handle: false })
+
+			expect(result.head).not.toContain('svelte-title:')
+			expect(result.title).toBe('Billing • Settings • App')
+		})
+
+		it('should provide page data from the route', async () => {
+			const result = await renderWithTitles(Title, {
+				props: { title: 'App', fromData: true },
+				route: { url: '/settings/billing', data: { titles: ['Settings', 'Billing'] } }
+			})
+
+			expect(result.title).toBe('Billing • Settings • App')
+		})
+
+		it('should provide the URL from the route', async () => {
+			const result = await renderWithTitles(TitlesWithBreadcrumbs, { route: '/settings/billing' })
+
+			expect(result.body).toContain('href="/settings/general"')
+			expect(result.body).toContain('aria-current="page"')
+		})
+
+		it('should ask for a mocked $app/state when a route is given', async () => {
+			vi.doUnmock('$app/state')
+			vi.resetModules()
+			const testing = await import('../src/lib/testing.js')
+			const { default: UnmockedTitle } = await import('../src/lib/components/Title.svelte')
+
+			await expect(testing.renderWithTitles(UnmockedTitle, { props: { title: 'App' }, route: '/settings' }))
+				.rejects.toThrow("vi.mock('$app/state'")
+			expect((await testing.renderWithTitles(UnmockedTitle, { props: { title: 'App' } })).title).toBe('App')
+		})
+
+		it('should start each render without titles', async () => {
+			defaultTitleManager.setTitlePart(3, 'Stale')
+
+			const result = await renderWithTitles(Title, { props: { title: 'App' } })
+
+			expect(result.title).toBe('App')
+		})
+	})
+
+	describe('getCurrentTitle', () => {
+		it('should return the title of the last render', async () => {
+			await renderWithTitles(NestedTitles)
+
+			expect(getCurrentTitle()).toBe('Billing • Settings • App')
+		})
+
+		it('should return the default manager title before any render', () => {
+			defaultTitleManager.setTitlePart(0, 'App')
+
+			expect(getCurrentTitle()).toBe('App')
+		})
+
+		it('should read a given manager', () => {
+			const manager = createTitleManager()
+			manager.setTitlePart(0, 'Other')
+
+			expect(getCurrentTitle(manager)).toBe('Other')
+		})
+	})
+
+	describe('expectTitle', () => {
+		it('should pass for an equal title or matching pattern', async () => {
+			await renderWithTitles(NestedTitles)
+
+			expectTitle('Billing • Settings • App')
+			expectTitle(/App$/)
+		})
+
+		it('should fail for a different title', async () => {
+			await renderWithTitles(NestedTitles)
+
+			expect(() => expectTitle('Billing')).toThrow()
+			expect(() => expectTitle(/^App/)).toThrow()
+		})
+	})
+
+	describe('toHaveTitle', () => {
+		it('should match render results and managers', async () => {
+			const manager = createTitleManager()
+			manager.setTitlePart(0, 'App')
+			manager.setTitlePart(1, 'Settings')
+
+			expect(await renderWithTitles(NestedTitles)).toHaveTitle('Billing • Settings • App')
+			expect(manager).toHaveTitle(/^Settings/)
+			expect(manager).not.toHaveTitle('App')
+		})
+
+		it('should describe the mismatch', () => {
+			const manager = createTitleManager()
+			manager.setTitlePart(0, 'App')
+
+			expect(() => expect(manager).toHaveTitle('Settings')).toThrow(/expected title "App" to be "Settings"/)
+		})
+	})
+
+	describe('resetTitles', () => {
+		it('should clear the default manager and the last render', async () => {
+			await renderWithTitles(NestedTitles)
+			defaultTitleManager.setTitlePart(0, 'App')
+
+			resetTitles()
+
+			expect(get(defaultTitleManager.titleParts)).toEqual([])
+			expect(getCurrentTitle()).toBe('')
+		})
+	})
+})
+
+describe('titleTest', () => {
+	titleTest('should provide the default manager', ({ titles }) => {
+		expect(titles).toBe(defaultTitleManager)
+		titles.setTitlePart(0, 'Leaked')
+	})
+
+	titleTest('should start without titles', ({ titles }) => {
+		expect(get(titles.titleParts)).toEqual([])
+	})
+})
@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { dirname, join } from 'node:path'
+import { runnerImport, type ResolvedConfig } from 'vite'
+import { createTitleManifest, titleManifest } from '../src/lib/vite.js'
+import { createTitleMarker } from '../src/lib/markers.js'
+
+let root: string
+let pagesDir: string
+
+async function writePage(file: string, head: string) {
+	const path = join(pagesDir, file)
+	await mkdir(dirname(path), { recursive: true })
+	await writeFile(path, `<!doctype html><html><head>${head}</head><body><title>Not this</title></body></html>`)
+}
+
+/**
+ * Runs the plugin's hooks the way the server build of `vite build` does.
+ */
+async function runPlugin(plugin: ReturnType<typeof titleManifest>, logger = { info: vi.fn(), warn: vi.fn() }) {
+	const config = { root, build: { ssr: true }, logger } as unknown as ResolvedConfig
+	;(plugin.configResolved as (config: ResolvedConfig) => void)(config)
+	await (plugin.closeBundle as { handler: () => Promise<void> }).handler()
+	return logger
+}
+
+describe('createTitleManifest', () => {
+	beforeEach(async () => {
+		root = await mkdtemp(join(tmpdir(), 'svelte-title-'))
+		pagesDir = join(root, '.svelte-kit/output/prerendered/pages')
+	})
+
+	afterEach(async () => {
+		await rm(root, { recursive: true, force: true })
+	})
+
+	it('should list each route with its title and parts', async () => {
+		await writePage('index.html', `<title>App</title>${createTitleMarker({ level: 0, title: 'App' })}`)
+		await writePage('settings/billing.html', [
+			createTitleMarker({ level: 0, title: 'App', separator: ' | ' }),
+			createTitleMarker({ level: 1, title: 'Settings', data: true }),
+			createTitleMarker({ level: 2, title: 'Billing & Plans' }),
+			'<title>Billing &amp; Plans | Settings | App</title>'
+		].join(''))
+
+		expect(await createTitleManifest(pagesDir)).toEqual({
+			routes: [
+				{ path: '/', title: 'App', parts: [{ level: 0, title: 'App' }], issues: [] },
+				{
+					path: '/settings/billing',
+					title: 'Billing & Plans | Settings | App',
+					parts: [
+						{ level: 0, title: 'App' },
+						{ level: 1, title: 'Settings', data: true },
+						{ level: 2, title: 'Billing & Plans' }
+					],
+					issues: []
+				}
+			]
+		})
+	})
+
+	it('should use the last title, like SSR', async () => {
+		await writePage('about/index.html', '<title>App</title><title>About • App</title>')
+
+		const { routes } = await createTitleManifest(pagesDir)
+
+		expect(routes).toEqual([{ path: '/about/', title: 'About • App', parts: [], issues: [] }])
+	})
+
+	it('should flag empty, duplicate and long titles', async () => {
+		await writePage('a.html', '<title>Docs</title>')
+		await writePage('b.html', '<title>Docs</title>')
+		await writePage('c.html', '<title></title>')
+		await writePage('d.html', '<title>A rather long page title • App</title>')
+
+		const { routes } = await createTitleManifest(pagesDir, { maxLength: 20 })
+
+		expect(routes.map(route => [route.path, route.issues])).toEqual([
+			['/a', ['duplicate']],
+			['/b', ['duplicate']],
+			['/c', ['empty']],
+			['/d', ['too-long']]
+		])
+	})
+
+	it('should return no routes when nothing was prerendered', async () => {
+		expect(await createTitleManifest(pagesDir)).toEqual({ routes: [] })
+	})
+
+	it('should throw for an invalid maxLength', async () => {
+		await expect(createTitleManifest(pagesDir, { maxLength: 0 })).rejects.toThrow('Invalid maxLength')
+	})
+})
+
+describe('titleManifest', () => {
+	beforeEach(async () => {
+		root = await mkdtemp(join(tmpdir(), 'svelte-title-'))
+		pagesDir = join(root, '.svelte-kit/output/prerendered/pages')
+	})
+
+	afterEach(async () => {
+		await rm(root, { recursive: true, force: true })
+	})
+
+	it('should write the manifest and remove the markers from the pages', async () => {
+		await writePage('index.html', `<title>App</title>${createTitleMarker({ level: 0, title: 'App' })}`)
+
+		const logger = await runPlugin(titleManifest({ file: 'build/titles.json' }))
+		expect(logger.warn).not.toHaveBeenCalled()
+
+		const manifest = JSON.parse(await readFile(join(root, 'build/titles.json'), 'utf8'))
+		expect(manifest.routes).toEqual([{ path: '/', title: 'App', parts: [{ level: 0, title: 'App' }], issues: [] }])
+		expect(await readFile(join(pagesDir, 'index.html'), 'utf8')).not.toContain('svelte-title:')
+	})
+
+	it('should warn about issues, or fail in strict mode', async () => {
+		await writePage('index.html', '<title></title>')
+
+		const logger = await runPlugin(titleManifest())
+		expect(logger.warn).toHaveBeenCalledWith('[svelte-title] / has no title')
+
+		await expect(runPlugin(titleManifest({ strict: true }))).rejects.toThrow('1 route title issue(s) found')
+	})
+
+	it('should only run for the server build', async () => {
+		const plugin = titleManifest()
+		;(plugin.configResolved as (config: ResolvedConfig) => void)({ root, build: { ssr: false } } as unknown as ResolvedConfig)
+		await (plugin.closeBundle as { handler: () => Promise<void> }).handler()
+
+		await expect(readFile(join(root, 'title-manifest.json'), 'utf8')).rejects.toThrow()
+	})
+
+	it('should load in a vite config without the SvelteKit plugin', async () => {
+		// A user's vite.config.ts imports the plugin before SvelteKit can resolve $app modules
+		const source = new URL('../src/lib/vite.ts', import.meta.url).pathname
+		const { module } = await runnerImport<typeof import('../src/lib/vite.js')>(source, { configFile: false, logLevel: 'silent' })
+
+		expect(module.titleManifest).toBeTypeOf('function')
+	})
+})